@@ -4,22 +4,42 @@ import { useRef, useState, useCallback } from "react";
 import Image from "next/image";
 import Scrollbar from "./Scrollbar";
 import Lightbox from "./Lightbox";
-import { AnimatePresence } from "framer-motion";
+import { InlineVideo } from "./Video";
+import { AnimatePresence, MotionConfig } from "framer-motion";
 import { useScrollBoost } from 'react-scrollbooster';
 import isMobile from "./isMobile";
 import useResizeObserver from "use-resize-observer";
+import { useLightboxURL } from "./useLightboxURL";
+import { useInView } from "./useInView";
 import styles from "./Attachments.module.css";
+import { describeAttachment, type Attachment as AttachmentData } from "./cv";
+import { formatMessage } from "./i18n";
+import { useMessages } from "./MessagesProvider";
 
 type AttachmentsProps = {
-  attachments: Array<any>,
+  attachments: Array<AttachmentData>,
+  // Identifies the gallery in deep links; galleries without one aren't linkable.
+  id?: string,
 };
 const Attachments: React.FC<AttachmentsProps> = ({
-  attachments
+  attachments,
+  id,
 }) => {
+  const messages = useMessages();
   const [lightboxState, setLightboxState] = useState({
     open: false,
     startingIndex: 0,
   });
+  const lightboxURL = useLightboxURL(id, attachments.length, {
+    onOpen: (index) => setLightboxState({
+      open: true,
+      startingIndex: index,
+    }),
+    onClose: () => setLightboxState({
+      open: false,
+      startingIndex: 0,
+    }),
+  });
   const scrollRef = useRef<HTMLDivElement>(null);
   const innerRef = useRef<HTMLDivElement>(null);
   const galleryHeight = 90;
@@ -61,12 +81,17 @@ const Attachments: React.FC<AttachmentsProps> = ({
   let lightbox;
   if (lightboxState.open === true) {
     lightbox = <Lightbox
+        key={lightboxState.startingIndex}
         attachments={attachments}
-        startingIndex={lightboxState.startingIndex}        
-        close={() => setLightboxState({
-          open: false,
-          startingIndex: 0,
-        })}
+        startingIndex={lightboxState.startingIndex}
+        onIndexChange={lightboxURL.move}
+        close={() => {
+          if (lightboxURL.close()) { return }
+          setLightboxState({
+            open: false,
+            startingIndex: 0,
+          });
+        }}
       />
   }
 
@@ -83,36 +108,52 @@ const Attachments: React.FC<AttachmentsProps> = ({
             {attachments.map((media, index) => {
               return (
                 <Attachment
-                  onClick={() => setLightboxState({
-                    open: true,
-                    startingIndex: index,
-                  })}
+                  onClick={() => {
+                    lightboxURL.open(index);
+                    setLightboxState({
+                      open: true,
+                      startingIndex: index,
+                    });
+                  }}
+                  label={`${formatMessage(messages.viewMedia[media.type], { position: index + 1, count: attachments.length })}${describeAttachment(media) ? `: ${describeAttachment(media)}` : ""}`}
                   media={media}
                   key={media.url}
-                  height={galleryHeight}/>
+                  height={galleryHeight}
+                  scrollport={containerRef}/>
               )
             })}
           </div>
         </div>
       </div>
       <Scrollbar scrollview={containerRef} innerChild={scrollRef} inlineStyle={{ marginTop: 8 }}/>
-      <AnimatePresence>
-        {lightbox}
-      </AnimatePresence>
+      <MotionConfig reducedMotion="user">
+        <AnimatePresence>
+          {lightbox}
+        </AnimatePresence>
+      </MotionConfig>
     </>
   )
 }
 
 type AttachmentProps = {
-  media: any,
+  media: AttachmentData,
   height: number,
+  label: string,
   onClick: () => void,
+  scrollport: React.RefObject<HTMLDivElement | null>,
 }
 const Attachment: React.FC<AttachmentProps> = ({
   media,
   height,
+  label,
   onClick,
+  scrollport,
 }) => {
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  // Thumbnails load once they're within a strip's width of being scrolled
+  // into view; until then only the blur placeholder shows.
+  const nearView = useInView(buttonRef, { root: scrollport, rootMargin: "0px 100%" });
+
   const maxWidth = 21/9;   // ultrawide monitor
   const minWidth = 19/5/9; // iPhone
 
@@ -127,22 +168,34 @@ const Attachment: React.FC<AttachmentProps> = ({
   }
 
   let item;
-  if (media.type === "image") {
-    item = <Image alt="" src={media.url} height={height} width={height * returnThumbnailAspectRatio(media.width / media.height)} />
+  if (!nearView) {
+    item = null;
+  } else if (media.type === "image") {
+    item = <Image
+      alt={describeAttachment(media)}
+      src={media.url}
+      height={height}
+      width={height * returnThumbnailAspectRatio(media.width / media.height)}
+      placeholder={media.blurDataURL ? "blur" : "empty"}
+      blurDataURL={media.blurDataURL} />
   } else if (media.type === "video") {
-    item = <video src={media.url} autoPlay loop muted playsInline/>
+    item = <InlineVideo media={media}/>
   }
 
   return (
-    <div
+    <button
+      ref={buttonRef}
+      type="button"
+      aria-label={label}
       style={{
         height: height,
         aspectRatio: returnThumbnailAspectRatio(media.width / media.height),
+        backgroundImage: media.blurDataURL ? `url(${media.blurDataURL})` : undefined,
       }}
       onClick={onClick}
       className={styles.media}>
       {item}
-    </div>
+    </button>
   )
 }
 
@@ -0,0 +1,119 @@
+"use client"
+
+import { useEffect, useId, useRef, useState } from "react";
+import Image from "next/image";
+import Arrow12 from "./Arrow12";
+import type { Collaborator } from "./cv";
+import { useMessages } from "./MessagesProvider";
+import styles from "./Collaborators.module.css";
+
+function initials(name: string) {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((word) => word[0].toUpperCase())
+    .join("");
+}
+
+const Avatar: React.FC<{ collaborator: Collaborator, size: number }> = ({ collaborator, size }) => {
+  return (
+    <span className={styles.avatar} style={{ width: size, height: size, fontSize: Math.round(size * 0.4) }}>
+      {collaborator.profilePhoto ?
+        <Image src={collaborator.profilePhoto} alt="" width={size} height={size} /> :
+        <span aria-hidden>{initials(collaborator.displayName)}</span>}
+    </span>
+  );
+}
+
+type CollaboratorsProps = {
+  collaborators: Array<Collaborator>,
+};
+
+// Overlapping avatars; hovering or tapping one shows a card with the
+// person's name, role and a link to their profile.
+const Collaborators: React.FC<CollaboratorsProps> = ({ collaborators }) => {
+  const messages = useMessages();
+  const [openId, setOpenId] = useState<string | null>(null);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const cardId = useId();
+
+  useEffect(() => {
+    if (openId === null) { return }
+    const onPointerDown = (event: PointerEvent) => {
+      if (!rootRef.current?.contains(event.target as Node)) {
+        setOpenId(null);
+      }
+    };
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        setOpenId(null);
+      }
+    };
+    document.addEventListener("pointerdown", onPointerDown);
+    document.addEventListener("keydown", onKeyDown);
+    return () => {
+      document.removeEventListener("pointerdown", onPointerDown);
+      document.removeEventListener("keydown", onKeyDown);
+    };
+  }, [openId]);
+
+  const open = collaborators.find((collaborator) => collaborator.id === openId);
+
+  return (
+    <div
+      ref={rootRef}
+      className={styles.collaborators}
+      onPointerLeave={(event) => {
+        if (event.pointerType === "mouse") { setOpenId(null) }
+      }}
+      onBlur={(event) => {
+        if (!event.currentTarget.contains(event.relatedTarget)) { setOpenId(null) }
+      }}>
+      <ul className={styles.avatars} aria-label={messages.collaborators}>
+        {collaborators.map((collaborator) => (
+          <li key={collaborator.id}>
+            <button
+              type="button"
+              className={styles.avatarButton}
+              aria-label={collaborator.displayName}
+              aria-expanded={openId === collaborator.id}
+              aria-controls={openId === collaborator.id ? cardId : undefined}
+              onPointerEnter={(event) => {
+                if (event.pointerType === "mouse") { setOpenId(collaborator.id) }
+              }}
+              onClick={() => setOpenId(collaborator.id)}>
+              <Avatar collaborator={collaborator} size={24} />
+            </button>
+          </li>
+        ))}
+      </ul>
+      {open ? (
+        // The frame's top padding bridges the gap under the avatars, so
+        // moving the pointer onto the card doesn't close it.
+        <div id={cardId} className={styles.cardFrame}>
+          <div className={styles.card}>
+            <Avatar collaborator={open} size={40} />
+            <div className={styles.cardInfo}>
+              <div className={styles.name}>{open.displayName}</div>
+              {open.role ? <div className={styles.role}>{open.role}</div> : null}
+              {open.profileURL ? (
+                <div className={styles.link}>
+                  <a href={open.profileURL} target="_blank" rel="noopener noreferrer">
+                    {messages.viewProfile}
+                  </a>
+                  <span>
+                    &#xfeff;
+                    <Arrow12 fill="var(--grey1)" />
+                  </span>
+                </div>
+              ) : null}
+            </div>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+export default Collaborators;
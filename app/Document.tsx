@@ -0,0 +1,42 @@
+import { Inter } from 'next/font/google'
+import { getMessages } from "./messages";
+import MessagesProvider from "./MessagesProvider";
+import ThemeProvider from "./ThemeProvider";
+import ThemeToggle from "./ThemeToggle";
+import { themeScript } from "./theme";
+
+const inter = Inter({
+  subsets: ['latin'],
+  variable: '--font-inter',
+})
+
+type DocumentProps = {
+  lang: string,
+  children: React.ReactNode,
+};
+
+// The <html> every page is rendered in. It's rendered by the layout of each
+// part of the site rather than the root layout, since only app/[locale]
+// knows which language a page is in.
+//
+// The theme script changes <html> before React hydrates it, hence
+// suppressHydrationWarning.
+const Document: React.FC<DocumentProps> = ({ lang, children }) => {
+  return (
+    <html lang={lang} className={inter.variable} suppressHydrationWarning>
+      <head>
+        <script dangerouslySetInnerHTML={{ __html: themeScript }} />
+      </head>
+      <body className="font-sans">
+        <MessagesProvider messages={getMessages(lang)}>
+          <ThemeProvider>
+            <ThemeToggle />
+            {children}
+          </ThemeProvider>
+        </MessagesProvider>
+      </body>
+    </html>
+  );
+}
+
+export default Document;
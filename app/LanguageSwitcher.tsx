@@ -0,0 +1,39 @@
+"use client"
+
+import { usePathname } from "next/navigation";
+import { localeChoiceParam, localePath, locales, splitLocalePath } from "./i18n";
+import { useMessages } from "./MessagesProvider";
+import styles from "./LanguageSwitcher.module.css";
+
+// A language's name in that language, as in "Français".
+function languageName(locale: string) {
+  const name = new Intl.DisplayNames([locale], { type: "language" }).of(locale) ?? locale;
+  return name.charAt(0).toLocaleUpperCase(locale) + name.slice(1);
+}
+
+// Links to the current page in each of the site's languages, marked so that
+// middleware.ts remembers the choice on the way. The path is read without its
+// prefix since the server sees the rewritten one and the browser the one in
+// the address bar.
+const LanguageSwitcher: React.FC<{ locale: string }> = ({ locale }) => {
+  const messages = useMessages();
+  const { path } = splitLocalePath(usePathname());
+  if (locales.length < 2) { return null }
+
+  return (
+    <nav className={styles.languages} aria-label={messages.language}>
+      {locales.map((option) => (
+        <a
+          key={option}
+          href={`${localePath(option, path)}?${localeChoiceParam}=${option}`}
+          hrefLang={option}
+          lang={option}
+          aria-current={option === locale ? "page" : undefined}>
+          {languageName(option)}
+        </a>
+      ))}
+    </nav>
+  );
+}
+
+export default LanguageSwitcher;
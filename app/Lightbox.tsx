@@ -1,24 +1,56 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { motion, AnimatePresence } from 'framer-motion';
+import { motion } from 'framer-motion';
+import { useLightboxGestures } from './useLightboxGestures';
 import useResizeObserver from "use-resize-observer";
 import ReactDOM from 'react-dom';
+import dynamic from 'next/dynamic';
 import isMobile from './isMobile';
+import { LightboxVideo } from './Video';
 import styles from './Lightbox.module.css';
+import { describeAttachment, type Attachment } from './cv';
+import { formatMessage } from './i18n';
+import type { Messages } from './messages';
+import { useMessages } from './MessagesProvider';
+
+// Descriptions are rare and the markdown pipeline is heavy, so it is only
+// fetched once a lightbox actually shows one.
+const RichText = dynamic(() => import('./RichText'));
 
 type LightboxProps = {
-  attachments: Array<any>,
+  attachments: Array<Attachment>,
   startingIndex: number,
+  onIndexChange?: (index: number) => void,
   close: () => void,
 }
 const Lightbox: React.FC<LightboxProps> = ({
   attachments,
   startingIndex,
-  close
+  onIndexChange,
+  close,
 }) => {
+  const messages = useMessages();
   const [currentIndex, setCurrentIndex] = useState(startingIndex);
+
+  useEffect(() => {
+    onIndexChange?.(currentIndex);
+  }, [currentIndex]);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const closeRef = useRef<HTMLButtonElement>(null);
+  // Whatever had focus when the lightbox opened (normally the thumbnail) gets
+  // it back on close.
+  const returnFocusRef = useRef<Element | null>(document.activeElement);
+
+  const dismiss = () => {
+    if (returnFocusRef.current instanceof HTMLElement) {
+      returnFocusRef.current.focus();
+    }
+    close();
+  }
 
   useEffect(() => {
+    closeRef.current?.focus();
+
     if (scrollRef.current && isMobile() && startingIndex > 0) {
       let bounds = scrollRef.current.getBoundingClientRect();
       scrollRef.current.scrollLeft = bounds.width * startingIndex;
@@ -32,9 +64,31 @@ const Lightbox: React.FC<LightboxProps> = ({
     };
   }, []);
 
+  // Keeps Tab and Shift+Tab cycling through the controls inside the dialog.
+  const trapFocus = (event: KeyboardEvent) => {
+    if (!dialogRef.current) { return }
+    const focusable = Array.from(dialogRef.current.querySelectorAll<HTMLElement>(
+      'button, input, [href], [tabindex]:not([tabindex="-1"])'
+    )).filter(element => element.tabIndex >= 0 && !element.hasAttribute('disabled') && element.getClientRects().length > 0);
+    if (focusable.length === 0) { return }
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (event.shiftKey && (document.activeElement === first || !dialogRef.current.contains(document.activeElement))) {
+      event.preventDefault();
+      last.focus();
+    } else if (!event.shiftKey && document.activeElement === last) {
+      event.preventDefault();
+      first.focus();
+    }
+  }
+
   const handleKey = (event: KeyboardEvent) => {
     if (event.key === 'Escape') {
-      close();
+      dismiss();
+    }
+
+    if (event.key === 'Tab') {
+      trapFocus(event);
     }
     
     if (event.key === "ArrowRight") {
@@ -83,23 +137,47 @@ const Lightbox: React.FC<LightboxProps> = ({
     });
   }
 
+  // Only the current slide and the ones either side of it (wrapping around,
+  // like paging does) are mounted, which also preloads the neighbours.
+  const isMounted = (index: number) => {
+    const distance = Math.abs(index - currentIndex);
+    return distance <= 1 || distance === attachments.length - 1;
+  }
+
+  const current = attachments[currentIndex];
+  const position = formatMessage(messages.mediaPosition[current.type], { position: currentIndex + 1, count: attachments.length });
+
   return ReactDOM.createPortal(
     <div
+      ref={dialogRef}
+      role="dialog"
+      aria-modal="true"
+      aria-label={messages.mediaViewer}
       data-mobile={isMobile()}
       className={styles.lightbox}>
+      <div aria-live="polite" aria-atomic="true" className={styles.srOnly}>
+        {describeAttachment(current) ? `${position}: ${describeAttachment(current)}` : position}
+      </div>
       <div
         onScroll={(event) => handleScroll(event)}
         ref={scrollRef}
         className={styles.carouselScroll}>
         <div className={styles.carousel}>
           {attachments.map((media, index) => {
+            if (!isMounted(index)) {
+              // Keeps the slide's place in the mobile scroller.
+              return <div key={media.url} className={styles.lightboxImage} aria-hidden/>
+            }
             return (
               <LightboxImage
                 prev={attachments && attachments.length > 1 ? prev : undefined}
                 next={attachments && attachments.length > 1 ? next : undefined}
                 key={media.url}
+                close={dismiss}
+                active={currentIndex === index}
                 display={currentIndex === index || isMobile() ? true : false}
                 media={media}
+                messages={messages}
               />
             )
           })}
@@ -122,6 +200,7 @@ const Lightbox: React.FC<LightboxProps> = ({
             stiffness: 700,
             damping: 50,
           }}
+          aria-hidden
           className={styles.dots}>
           {attachments.map((media, index) => {
             return (
@@ -150,7 +229,7 @@ const Lightbox: React.FC<LightboxProps> = ({
           damping: 50,
         }}
         className={styles.backdrop}
-        onClick={() => close()}/>
+        onClick={() => dismiss()}/>
       <motion.button
         initial={{ 
           opacity: 0,
@@ -167,36 +246,83 @@ const Lightbox: React.FC<LightboxProps> = ({
           stiffness: 700,
           damping: 50,
         }}
+        ref={closeRef}
+        type="button"
+        aria-label={messages.close}
         className={styles.close}
-        onClick={() => close()}/>
+        onClick={() => dismiss()}/>
     </div>
   , document.body);
 }
 
+// Resized copies from the media pipeline, with the original as the largest.
+function srcSet(media: Attachment) {
+  if (!media.variants || media.variants.length === 0) { return undefined }
+  return media.variants
+    .map((variant) => `${variant.url} ${variant.width}w`)
+    .concat(`${media.url} ${media.width}w`)
+    .join(", ");
+}
+
 type LightboxImageProps = {
-  media: any,
+  media: Attachment,
   prev?: () => void,
   next?: () => void,
+  close: () => void,
+  active: boolean,
   display: boolean,
+  messages: Messages,
 }
 const LightboxImage: React.FC<LightboxImageProps> = ({
   media,
   prev,
   next,
+  close,
+  active,
   display,
+  messages,
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
+  const zoomRef = useRef<HTMLDivElement>(null);
+  const clickTimer = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const { zoomed, zoomStyle, slideStyle, handlers } = useLightboxGestures(zoomRef, {
+    active,
+    zoomable: media.type === "image",
+    mobile: isMobile(),
+    onPage: (direction) => direction > 0 ? next?.() : prev?.(),
+    onDismiss: close,
+  });
+
+  // A click on either half pages, but waits briefly so a double-click can
+  // zoom instead. Keyboard activation (detail 0) pages straight away.
+  const navigate = (event: React.MouseEvent, go: () => void) => {
+    clearTimeout(clickTimer.current);
+    if (event.detail === 0) {
+      go();
+    } else if (event.detail === 1) {
+      clickTimer.current = setTimeout(go, media.type === "image" ? 250 : 0);
+    }
+  }
+
+  useEffect(() => () => clearTimeout(clickTimer.current), []);
+
   const [containerAspectRatio, setContainerAspectRatio] = useState((window.innerWidth - 48) / (window.innerHeight - 96));
   const imageAspectRatio = media.width / media.height;
   
+  // Videos sit outside the zoom layer so their controls stay above the
+  // navigation overlay.
   let attachment = media.type === "image" ?
-    <img src={media.url}/> :
-    <video
-      src={media.url}
-      autoPlay
-      muted
-      playsInline
-      loop/>
+    <motion.div
+      ref={zoomRef}
+      className={styles.zoom}
+      style={zoomStyle}>
+      <img
+        src={media.url}
+        srcSet={srcSet(media)}
+        sizes="100vw"
+        alt={describeAttachment(media)}/>
+    </motion.div> :
+    <LightboxVideo media={media} active={active}/>
 
   useEffect(() => {
     setRatio();
@@ -216,10 +342,12 @@ const LightboxImage: React.FC<LightboxImageProps> = ({
   useResizeObserver({ ref: containerRef as any, onResize });
   
   return (
-    <div
+    <motion.div
+      aria-hidden={!active}
       className={styles.lightboxImage}
       style={{
         visibility: display ? "visible" : "hidden",
+        ...slideStyle,
       }}
     >
       <motion.div
@@ -234,25 +362,67 @@ const LightboxImage: React.FC<LightboxImageProps> = ({
         ref={containerRef}
         className={styles.lightboxInner}>
         <div
+          {...handlers}
+          onDoubleClick={(event) => {
+            clearTimeout(clickTimer.current);
+            handlers.onDoubleClick(event);
+          }}
+          data-zoomed={zoomed}
           className={styles.imageWrap}
           style={{
+            touchAction: zoomed ? "none" : "pan-x",
             pointerEvents: display ? "all" : "none",
             aspectRatio: imageAspectRatio,
             width: containerAspectRatio > imageAspectRatio ? "auto" : "100%",
             height: containerAspectRatio > imageAspectRatio ? "100%" : "auto",
           }}
         >
-          {prev && next && !isMobile() ?
+          {prev && next && !isMobile() && !zoomed ?
             <div
               className={styles.navigation}>
-              <button className={styles.prev} onClick={() => prev()} />
-              <button className={styles.next} onClick={() => next()} />
+              <button
+                type="button"
+                aria-label={messages.previousMedia}
+                tabIndex={active ? 0 : -1}
+                className={styles.prev}
+                onClick={(event) => navigate(event, prev)} />
+              <button
+                type="button"
+                aria-label={messages.nextMedia}
+                tabIndex={active ? 0 : -1}
+                className={styles.next}
+                onClick={(event) => navigate(event, next)} />
             </div>
           : null}
           {attachment}
         </div>
       </motion.div>
-    </div>
+      {media.caption || media.credit || media.description ?
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{
+            type: 'spring',
+            stiffness: 700,
+            damping: 50,
+          }}
+          style={{ pointerEvents: display ? "all" : "none" }}
+          className={styles.caption}>
+          {media.caption ?
+            <div className={styles.captionTitle}>{media.caption}</div>
+          : null}
+          {media.description ?
+            <div className={styles.description}>
+              <RichText text={media.description} />
+            </div>
+          : null}
+          {media.credit ?
+            <div className={styles.credit}>{media.credit}</div>
+          : null}
+        </motion.div>
+      : null}
+    </motion.div>
   )
 }
 
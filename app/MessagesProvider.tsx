@@ -0,0 +1,26 @@
+"use client"
+
+import { createContext, useContext } from "react";
+import type { Messages } from "./messages";
+
+const MessagesContext = createContext<Messages | null>(null);
+
+// The site's words in the page's language, handed down from Document so that
+// client components don't bundle every language's.
+export function useMessages(): Messages {
+  const messages = useContext(MessagesContext);
+  if (!messages) {
+    throw new Error("useMessages is only available inside a Document");
+  }
+  return messages;
+}
+
+const MessagesProvider: React.FC<{ messages: Messages, children: React.ReactNode }> = ({ messages, children }) => {
+  return (
+    <MessagesContext.Provider value={messages}>
+      {children}
+    </MessagesContext.Provider>
+  );
+}
+
+export default MessagesProvider;
@@ -0,0 +1,68 @@
+"use client"
+
+import { useEffect } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import type { General } from "./cv";
+import { formatMessage, localePath, splitLocalePath } from "./i18n";
+import type { Messages } from "./messages";
+import pageStyles from "./page.module.css";
+import styles from "./Profile.module.css";
+
+export type NotFoundProfile = Pick<General, "profilePhoto" | "displayName" | "byline">;
+export type NotFoundMessages = Pick<Messages, "notFound" | "notFoundDescription" | "backTo" | "backToProfiles">;
+
+type NotFoundMessageProps = {
+  // The default profile in each language, or null when there isn't one.
+  profiles: Record<string, NotFoundProfile> | null,
+  // Only what's shown here, in each language, since every page's payload
+  // carries the root 404.
+  messages: Record<string, NotFoundMessages>,
+};
+
+// The 404 page's content. Not-found pages don't get the route's params, so
+// the language is read from the path that wasn't found. app/not-found.tsx's
+// document is prerendered once, in the default language, so its <html lang>
+// is set here too.
+const NotFoundMessage: React.FC<NotFoundMessageProps> = ({ profiles, messages: allMessages }) => {
+  const { locale } = splitLocalePath(usePathname());
+  const messages = allMessages[locale];
+  const profile = profiles?.[locale];
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  return (
+    <div className={pageStyles.page}>
+      <div className={styles.profile}>
+        {profile ? (
+          <div className={styles.profileHeader}>
+            <div className={styles.profilePhoto}>
+              <Image src={profile.profilePhoto} alt="" width={92} height={92} />
+            </div>
+            <div className={styles.profileInfo}>
+              <h1>{profile.displayName}</h1>
+              <div className={styles.byline}>{profile.byline}</div>
+            </div>
+          </div>
+        ) : null}
+
+        <section className={styles.profileSection}>
+          <h3>{messages.notFound}</h3>
+          <div className={styles.description}>
+            <p>{messages.notFoundDescription}</p>
+            <p className={styles.title}>
+              <Link href={localePath(locale, "")}>
+                {profile ? formatMessage(messages.backTo, { name: profile.displayName }) : messages.backToProfiles}
+              </Link>
+            </p>
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default NotFoundMessage;
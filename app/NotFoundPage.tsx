@@ -0,0 +1,23 @@
+import { getDefaultUsername, getProfile } from "./content";
+import { locales } from "./i18n";
+import { getMessages } from "./messages";
+import NotFoundMessage, { type NotFoundMessages, type NotFoundProfile } from "./NotFoundMessage";
+
+// Loads the default profile and the page's words in every language for
+// NotFoundMessage, which picks one once it knows the path.
+export default async function NotFoundPage() {
+  const username = await getDefaultUsername();
+  const profiles = username === undefined ? null : Object.fromEntries(
+    await Promise.all(locales.map(async (locale): Promise<[string, NotFoundProfile]> => {
+      const { profilePhoto, displayName, byline } = (await getProfile(username, locale)).general;
+      return [locale, { profilePhoto, displayName, byline }];
+    })),
+  );
+
+  const messages = Object.fromEntries(locales.map((locale): [string, NotFoundMessages] => {
+    const { notFound, notFoundDescription, backTo, backToProfiles } = getMessages(locale);
+    return [locale, { notFound, notFoundDescription, backTo, backToProfiles }];
+  }));
+
+  return <NotFoundMessage profiles={profiles} messages={messages} />;
+}
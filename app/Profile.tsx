@@ -1,22 +1,54 @@
 import Image from "next/image";
+import Link from "next/link";
 import RichText from "./RichText";
 import Arrow12 from "./Arrow12";
 import styles from "./Profile.module.css";
 import Attachments from "./Attachments";
+import StatusPill from "./StatusPill";
+import Collaborators from "./Collaborators";
+import ProfileTheme from "./ProfileTheme";
+import LanguageSwitcher from "./LanguageSwitcher";
+import { findCollaborators, type Collaborator, type Contact, type CV, type Experience } from "./cv";
+import { buildSections, itemTitle } from "./sections";
+import { defaultLocale, formatMessage } from "./i18n";
+import { getMessages, type Messages } from "./messages";
 
 type ProfileProps = {
-  cv: any;
+  cv: CV;
+  // Where the profile's case studies live, "" for the top level.
+  basePath?: string;
+  // Only the default profile has a downloadable résumé.
+  resumeURL?: string;
+  // The language the page is in, which also shows the language switcher.
+  // The editor's preview leaves it out.
+  locale?: string;
 };
-const Profile: React.FC<ProfileProps> = ({ cv }) => {
+const Profile: React.FC<ProfileProps> = ({ cv, basePath = "", resumeURL, locale }) => {
+  const language = locale ?? defaultLocale;
+  const messages = getMessages(language);
+  // A byline that only repeats the profession is shown once.
+  const byline = Array.from(new Set([
+    cv.general.byline,
+    cv.general.profession,
+    cv.general.location,
+    cv.general.pronouns,
+  ].filter(Boolean)));
   return (
     <div className={styles.profile}>
+      <ProfileTheme theme={cv.general.theme} />
       <div className={styles.profileHeader}>
         <div className={styles.profilePhoto}>
           <Image src={cv.general.profilePhoto} alt="" width={92} height={92} />
         </div>
         <div className={styles.profileInfo}>
           <h1>{cv.general.displayName}</h1>
-          <div className={styles.byline}>{cv.general.byline}</div>
+          {byline.length > 0 ? (
+            <div className={styles.byline}>
+              {byline.map((part, index) => (
+                <span key={index}>{part}</span>
+              ))}
+            </div>
+          ) : null}
           {cv.general.website ? (
             <div className={styles.title}>
               <a
@@ -32,54 +64,57 @@ const Profile: React.FC<ProfileProps> = ({ cv }) => {
               </span>
             </div>
           ) : null}
+          {resumeURL ? (
+            <div className={`${styles.title} ${styles.resumeLink}`}>
+              <a
+                href={resumeURL}
+                download={resumeURL.endsWith(".pdf") ? formatMessage(messages.resumeFileName, { name: cv.general.displayName }) : undefined}
+              >
+                {messages.downloadResume}
+              </a>
+            </div>
+          ) : null}
+          {cv.general.status ? <StatusPill status={cv.general.status} locale={language} /> : null}
+          {locale ? <LanguageSwitcher locale={locale} /> : null}
         </div>
       </div>
 
       {cv.general.about ? (
         <section className={`${styles.profileSection} ${styles.about}`}>
-          <h3>About</h3>
+          <h3>{messages.about}</h3>
           <div className={styles.description}>
             <RichText text={cv.general.about} />
           </div>
         </section>
       ) : null}
 
-      {cv.allCollections.map((collection: any, index: number) => {
+      {buildSections(cv).map((section) => {
         return (
-          <section
-            key={collection.name || `collection-${index}`}
-            className={styles.profileSection}
-          >
-            <h3>{collection.name}</h3>
-            <div
-              className={
-                collection.name === "Contact"
-                  ? styles.contacts
-                  : styles.experiences
-              }
-            >
-              {collection.items.map((experience: any, index: number) => {
-                if (collection.name === "Contact") {
-                  return (
-                    <ContactItem
-                      key={
-                        experience.url ||
-                        experience.handle ||
-                        `contact-${index}`
-                      }
-                      experience={experience}
-                    />
-                  );
-                }
-
-                return (
+          <section key={section.key} className={styles.profileSection}>
+            <h3>{messages.sections[section.name] ?? section.name}</h3>
+            {section.key === "contact" ? (
+              <div className={styles.contacts}>
+                {section.items.map((contact, index) => (
+                  <ContactItem
+                    key={contact.id || `contact-${index}`}
+                    experience={contact}
+                  />
+                ))}
+              </div>
+            ) : (
+              <div className={styles.experiences}>
+                {section.items.map((experience, index) => (
                   <ProfileItem
                     key={experience.id || experience.heading || `item-${index}`}
                     experience={experience}
+                    collaborators={findCollaborators(cv, experience.collaborators)}
+                    basePath={basePath}
+                    messages={messages}
+                    {...itemTitle(section.key, experience)}
                   />
-                );
-              })}
-            </div>
+                ))}
+              </div>
+            )}
           </section>
         );
       })}
@@ -88,15 +123,27 @@ const Profile: React.FC<ProfileProps> = ({ cv }) => {
 };
 
 type ProfileItemProps = {
-  experience: any;
+  experience: Experience;
+  collaborators: Array<Collaborator>;
+  basePath: string;
+  messages: Messages;
+  heading?: string;
+  subtitle?: string;
 };
-const ProfileItem: React.FC<ProfileItemProps> = ({ experience }) => {
+const ProfileItem: React.FC<ProfileItemProps> = ({
+  experience,
+  collaborators,
+  basePath,
+  messages,
+  heading = experience.heading,
+  subtitle = experience.location,
+}) => {
   let title;
   if (experience.url) {
     title = (
       <>
         <a href={experience.url} target="_blank">
-          {experience.heading}
+          {heading}
         </a>
         <span className={styles.linkArrow}>
           &#xfeff;
@@ -105,7 +152,7 @@ const ProfileItem: React.FC<ProfileItemProps> = ({ experience }) => {
       </>
     );
   } else {
-    title = experience.heading;
+    title = heading;
   }
   return (
     <div className={styles.experience}>
@@ -114,16 +161,25 @@ const ProfileItem: React.FC<ProfileItemProps> = ({ experience }) => {
       </div>
       <div className={styles.experienceContent}>
         <div className={styles.title}>{title}</div>
-        {experience.location ? (
-          <div className={styles.location}>{experience.location}</div>
+        {subtitle ? (
+          <div className={styles.location}>{subtitle}</div>
         ) : null}
         {experience.description ? (
           <div className={styles.description}>
             <RichText text={experience.description} />
           </div>
         ) : null}
+        {experience.caseStudy ? (
+          <div className={`${styles.title} ${styles.caseStudyLink}`}>
+            <Link href={`${basePath}/${experience.caseStudy}`}>{messages.readCaseStudy}</Link>
+            <span className={styles.linkArrow}>&nbsp;&rarr;</span>
+          </div>
+        ) : null}
         {experience.attachments && experience.attachments.length > 0 ? (
-          <Attachments attachments={experience.attachments} />
+          <Attachments attachments={experience.attachments} id={experience.id} />
+        ) : null}
+        {collaborators.length > 0 ? (
+          <Collaborators collaborators={collaborators} />
         ) : null}
       </div>
     </div>
@@ -131,7 +187,7 @@ const ProfileItem: React.FC<ProfileItemProps> = ({ experience }) => {
 };
 
 type ContactItemProps = {
-  experience: any;
+  experience: Contact;
 };
 const ContactItem: React.FC<ContactItemProps> = ({ experience }) => {
   return (
@@ -0,0 +1,36 @@
+import Image from "next/image";
+import Link from "next/link";
+import profileStyles from "./Profile.module.css";
+import styles from "./ProfileIndex.module.css";
+import { describeProfile } from "./cv";
+import { getProfilePath, getProfiles } from "./content";
+import { localePath } from "./i18n";
+import { getMessages } from "./messages";
+
+// Every profile on the site, shown at /profiles, and at / when there's no
+// default profile.
+export default async function ProfileIndex({ locale }: { locale: string }) {
+  const profiles = await getProfiles(locale);
+  const paths = await Promise.all(profiles.map((cv) => getProfilePath(cv.general.username)));
+
+  return (
+    <div className={profileStyles.profile}>
+      <h1 className={styles.heading}>{getMessages(locale).profiles}</h1>
+      <ul className={styles.profiles}>
+        {profiles.map((cv, index) => (
+          <li key={cv.general.username}>
+            <Link href={localePath(locale, paths[index])} className={styles.profile}>
+              <div className={`${profileStyles.profilePhoto} ${styles.photo}`}>
+                <Image src={cv.general.profilePhoto} alt="" width={48} height={48} />
+              </div>
+              <div className={profileStyles.profileInfo}>
+                <div className={styles.name}>{cv.general.displayName}</div>
+                <div className={profileStyles.byline}>{describeProfile(cv.general)}</div>
+              </div>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
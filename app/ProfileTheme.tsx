@@ -0,0 +1,11 @@
+import type { Theme } from "./cv";
+import { themeStyles } from "./theme";
+
+// Rendered by the profile and its case studies rather than the layout, so
+// each profile on a multi-profile site keeps its own look.
+const ProfileTheme: React.FC<{ theme?: Theme }> = ({ theme }) => {
+  const css = themeStyles(theme);
+  return css ? <style>{css}</style> : null;
+}
+
+export default ProfileTheme;
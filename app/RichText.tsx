@@ -1,24 +1,107 @@
-import { memo } from "react";
-import Markdown from 'react-markdown';
+import { memo, useMemo } from "react";
+import Image from "next/image";
+import Markdown, { type Components } from 'react-markdown';
+import rehypeSlug from 'rehype-slug';
+import rehypeAutolinkHeadings from 'rehype-autolink-headings';
+import rehypeHighlight from 'rehype-highlight';
+import type { PluggableList } from 'unified';
+import Attachments from "./Attachments";
+import { remarkPlugins, type GalleryItem } from "./markdown";
+import type { Attachment, MediaMap } from "./cv";
+import styles from "./RichText.module.css";
 
 type RichTextProps = {
   text: string,
+  media?: MediaMap,
 };
 
-const Link: React.FC<React.JSX.IntrinsicElements['a']> = memo(({ href, children }) => {
-  return <a href={href} target='_blank'>{children}</a>;
+// `node` is the hast element react-markdown passes to every component; it
+// mustn't end up as an attribute.
+const Link: Components['a'] = memo(function Link({ node, href, children, ...props }) {
+  if (href && (href.startsWith('#') || href.startsWith('/'))) {
+    return <a href={href} {...props}>{children}</a>;
+  }
+  return <a href={href} {...props} target='_blank' rel='noopener noreferrer'>{children}</a>;
 });
 
-const components: Partial<{ [TagName in keyof React.JSX.IntrinsicElements]: React.FunctionComponent<React.JSX.IntrinsicElements[TagName]> }> = {
-  a: Link,
+const rehypePlugins: PluggableList = [
+  rehypeSlug,
+  [rehypeAutolinkHeadings, {
+    behavior: 'append',
+    properties: { className: [styles.anchor], ariaHidden: true, tabIndex: -1 },
+    content: { type: 'text', value: '#' },
+  }],
+  rehypeHighlight,
+];
+
+// The `<gallery>` element remarkGallery produces isn't an HTML element, so
+// react-markdown's own map doesn't know about it.
+type MarkdownComponents = Components & {
+  gallery: React.FC<{ items?: string }>,
 };
 
+const noMedia: MediaMap = {};
+
+// Markdown images go through next/image whenever their dimensions are known
+// (see getMediaDimensions); anything else, like remote images, is left as is.
+function createComponents(media: MediaMap): MarkdownComponents {
+  const MarkdownImage: Components['img'] = ({ src, alt }) => {
+    const known = typeof src === 'string' ? media[src] : undefined;
+    if (!known) {
+      return <img src={typeof src === 'string' ? src : undefined} alt={alt || ''} />;
+    }
+    return (
+      <Image
+        className={styles.image}
+        src={known.url}
+        alt={alt || ''}
+        width={known.width}
+        height={known.height}
+        sizes="(max-width: 608px) 100vw, 560px"
+        placeholder={known.blurDataURL ? 'blur' : 'empty'}
+        blurDataURL={known.blurDataURL}
+      />
+    );
+  };
+
+  const Gallery: MarkdownComponents['gallery'] = ({ items }) => {
+    const attachments = (JSON.parse(items || '[]') as Array<GalleryItem>)
+      .filter((item) => media[item.url] !== undefined)
+      .map((item): Attachment => ({ ...media[item.url], alt: item.alt || media[item.url].alt }));
+    if (attachments.length === 0) {
+      return null;
+    }
+    return (
+      <div className={styles.gallery}>
+        <Attachments attachments={attachments} />
+      </div>
+    );
+  };
+
+  return {
+    a: Link,
+    img: MarkdownImage,
+    gallery: Gallery,
+  };
+}
+
 const RichText: React.FC<RichTextProps> = ({
-  text
+  text,
+  media = noMedia,
 }) => {
+  // Kept across renders so images and galleries, and an open lightbox, aren't
+  // remounted.
+  const components = useMemo(() => createComponents(media), [media]);
   return (
-    <Markdown components={components as any}>{text}</Markdown>
+    <div className={styles.richText}>
+      <Markdown
+        remarkPlugins={remarkPlugins}
+        rehypePlugins={rehypePlugins}
+        components={components}>
+        {text}
+      </Markdown>
+    </div>
   )
 }
 
-export default RichText;
\ No newline at end of file
+export default RichText;
@@ -0,0 +1,57 @@
+"use client"
+
+import { useEffect, useState } from "react";
+import type { Status } from "./cv";
+import { useMessages } from "./MessagesProvider";
+import styles from "./StatusPill.module.css";
+
+// A status older than this is assumed to be out of date and isn't shown.
+const maxAge = 14 * 24 * 60 * 60 * 1000;
+
+const units: Array<[Intl.RelativeTimeFormatUnit, number]> = [
+  ["day", 24 * 60 * 60 * 1000],
+  ["hour", 60 * 60 * 1000],
+  ["minute", 60 * 1000],
+];
+
+function relativeTime(time: number, now: number, locale: string, justNow: string) {
+  const elapsed = time - now;
+  const format = new Intl.RelativeTimeFormat(locale, { numeric: "auto" });
+  for (const [unit, length] of units) {
+    if (Math.abs(elapsed) >= length) {
+      return format.format(Math.round(elapsed / length), unit);
+    }
+  }
+  return justNow;
+}
+
+// The pages are static, so the age of the status is only worked out in the
+// browser; nothing renders until then rather than a possibly stale status.
+const StatusPill: React.FC<{ status: Status, locale: string }> = ({ status, locale }) => {
+  const messages = useMessages();
+  const [now, setNow] = useState<number | null>(null);
+
+  useEffect(() => {
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (now === null || (!status.text && !status.emoji)) { return null }
+  const time = status.timestamp ? Date.parse(status.timestamp) : NaN;
+  if (!Number.isNaN(time) && now - time > maxAge) { return null }
+
+  return (
+    <div className={styles.status}>
+      {status.emoji ? <span aria-hidden>{status.emoji}</span> : null}
+      {status.text ? <span>{status.text}</span> : null}
+      {!Number.isNaN(time) ? (
+        <time className={styles.time} dateTime={new Date(time).toISOString()}>
+          {relativeTime(time, now, locale, messages.justNow)}
+        </time>
+      ) : null}
+    </div>
+  );
+}
+
+export default StatusPill;
@@ -0,0 +1,22 @@
+import { getSiteURL } from "./content";
+import { toStructuredData } from "./exports";
+import type { CV } from "./cv";
+
+type StructuredDataProps = {
+  cv: CV,
+  // The profile's canonical path in the page's language, "" for the default
+  // profile in the default language.
+  path: string,
+};
+const StructuredData: React.FC<StructuredDataProps> = ({ cv, path }) => {
+  // Escaped so content can't close the script tag early.
+  const json = JSON.stringify(toStructuredData(cv, getSiteURL() + path)).replace(/</g, '\\u003c');
+  return (
+    <script
+      type="application/ld+json"
+      dangerouslySetInnerHTML={{ __html: json }}
+    />
+  );
+}
+
+export default StructuredData;
@@ -0,0 +1,76 @@
+"use client"
+
+import { createContext, useCallback, useContext, useEffect, useState } from "react";
+import { themeStorageKey, type ThemePreference } from "./theme";
+
+type ThemeContextValue = {
+  preference: ThemePreference,
+  setPreference: (preference: ThemePreference) => void,
+};
+
+const ThemeContext = createContext<ThemeContextValue>({
+  preference: "system",
+  setPreference: () => {},
+});
+
+export function useTheme() {
+  return useContext(ThemeContext);
+}
+
+function apply(preference: ThemePreference) {
+  if (preference === "system") {
+    delete document.documentElement.dataset.theme;
+  } else {
+    document.documentElement.dataset.theme = preference;
+  }
+}
+
+function stored(): ThemePreference {
+  try {
+    const value = localStorage.getItem(themeStorageKey);
+    return value === "light" || value === "dark" ? value : "system";
+  } catch {
+    return "system";
+  }
+}
+
+// Holds the light/dark/system choice. The first paint is already right,
+// thanks to themeScript; this keeps it in step with the toggle and with
+// other tabs.
+const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [preference, setState] = useState<ThemePreference>("system");
+
+  useEffect(() => {
+    setState(stored());
+    const onStorage = (event: StorageEvent) => {
+      if (event.key !== themeStorageKey) { return }
+      const next = stored();
+      apply(next);
+      setState(next);
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+
+  const setPreference = useCallback((next: ThemePreference) => {
+    try {
+      if (next === "system") {
+        localStorage.removeItem(themeStorageKey);
+      } else {
+        localStorage.setItem(themeStorageKey, next);
+      }
+    } catch {
+      // Private windows may not allow storage; the choice lasts for the page.
+    }
+    apply(next);
+    setState(next);
+  }, []);
+
+  return (
+    <ThemeContext.Provider value={{ preference, setPreference }}>
+      {children}
+    </ThemeContext.Provider>
+  );
+}
+
+export default ThemeProvider;
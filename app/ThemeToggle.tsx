@@ -0,0 +1,36 @@
+"use client"
+
+import { useEffect, useState } from "react";
+import { useTheme } from "./ThemeProvider";
+import { useMessages } from "./MessagesProvider";
+import { themePreferences } from "./theme";
+import styles from "./ThemeToggle.module.css";
+
+// Only the browser knows the stored choice, so nothing renders until then
+// rather than a toggle showing the wrong one.
+const ThemeToggle: React.FC = () => {
+  const { preference, setPreference } = useTheme();
+  const messages = useMessages();
+  const [mounted, setMounted] = useState(false);
+
+  useEffect(() => setMounted(true), []);
+
+  if (!mounted) { return null }
+
+  return (
+    <div className={styles.toggle} role="group" aria-label={messages.theme}>
+      {themePreferences.map((option) => (
+        <button
+          key={option}
+          type="button"
+          className={styles.option}
+          aria-pressed={preference === option}
+          onClick={() => setPreference(option)}>
+          {messages.themes[option]}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export default ThemeToggle;
@@ -0,0 +1,165 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react";
+import { useReducedMotion } from "framer-motion";
+import { describeAttachment, type Attachment } from "./cv";
+import { formatMessage } from "./i18n";
+import { useMessages } from "./MessagesProvider";
+import styles from "./Video.module.css";
+
+// Plays a muted, looping video only while it's on screen, and not at all
+// when the reader prefers reduced motion; the poster stands in otherwise.
+export const InlineVideo: React.FC<{ media: Attachment }> = ({ media }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const reducedMotion = useReducedMotion();
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || reducedMotion) { return }
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) {
+        video.play().catch(() => {});
+      } else {
+        video.pause();
+      }
+    }, { threshold: 0.25 });
+    observer.observe(video);
+    return () => {
+      observer.disconnect();
+      video.pause();
+    };
+  }, [reducedMotion]);
+
+  return (
+    <video
+      ref={videoRef}
+      src={media.url}
+      poster={media.poster}
+      preload={reducedMotion ? "none" : "metadata"}
+      loop
+      muted
+      playsInline
+      aria-hidden/>
+  );
+}
+
+function formatTime(seconds: number) {
+  if (!Number.isFinite(seconds)) { return "0:00" }
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(Math.floor(seconds % 60)).padStart(2, "0")}`;
+}
+
+type LightboxVideoProps = {
+  media: Attachment,
+  active: boolean,
+};
+
+// The lightbox's video: only the active slide plays, and it has its own
+// play/pause, mute and scrub controls.
+export const LightboxVideo: React.FC<LightboxVideoProps> = ({
+  media,
+  active,
+}) => {
+  const messages = useMessages();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const reducedMotion = useReducedMotion();
+  const [playing, setPlaying] = useState(false);
+  const [muted, setMuted] = useState(true);
+  const [time, setTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) { return }
+    if (active && !reducedMotion) {
+      video.play().catch(() => {});
+    } else {
+      video.pause();
+    }
+  }, [active, reducedMotion]);
+
+  const togglePlaying = () => {
+    const video = videoRef.current;
+    if (!video) { return }
+    if (video.paused) {
+      video.play().catch(() => {});
+    } else {
+      video.pause();
+    }
+  }
+
+  const toggleMuted = () => {
+    const video = videoRef.current;
+    if (!video) { return }
+    video.muted = !video.muted;
+    setMuted(video.muted);
+  }
+
+  const seek = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const video = videoRef.current;
+    if (!video) { return }
+    video.currentTime = Number(event.target.value);
+    setTime(video.currentTime);
+  }
+
+  return (
+    <>
+      <video
+        ref={videoRef}
+        aria-label={describeAttachment(media) || undefined}
+        src={media.url}
+        poster={media.poster}
+        preload={active ? "auto" : "none"}
+        muted={muted}
+        loop
+        playsInline
+        onPlay={() => setPlaying(true)}
+        onPause={() => setPlaying(false)}
+        onTimeUpdate={(event) => setTime(event.currentTarget.currentTime)}
+        onLoadedMetadata={(event) => setDuration(event.currentTarget.duration)}/>
+      <div
+        className={styles.controls}
+        // Keep the lightbox's drag gestures out of the controls.
+        onPointerDown={(event) => event.stopPropagation()}
+        onDoubleClick={(event) => event.stopPropagation()}>
+        <button
+          type="button"
+          tabIndex={active ? 0 : -1}
+          aria-label={playing ? messages.pause : messages.play}
+          className={styles.button}
+          onClick={togglePlaying}>
+          <svg width="12" height="12" viewBox="0 0 12 12" aria-hidden>
+            {playing ?
+              <path d="M3 2h2v8H3zM7 2h2v8H7z" fill="currentColor"/> :
+              <path d="M3 1.5v9l7.5-4.5z" fill="currentColor"/>}
+          </svg>
+        </button>
+        <input
+          type="range"
+          tabIndex={active ? 0 : -1}
+          aria-label={messages.seek}
+          aria-valuetext={formatMessage(messages.timeOf, { time: formatTime(time), duration: formatTime(duration) })}
+          min={0}
+          max={duration || 0}
+          step={0.1}
+          value={time}
+          onChange={seek}
+          className={styles.scrubber}/>
+        <span className={styles.time}>{formatTime(time)}</span>
+        <button
+          type="button"
+          tabIndex={active ? 0 : -1}
+          aria-label={muted ? messages.unmute : messages.mute}
+          className={styles.button}
+          onClick={toggleMuted}>
+          <svg width="12" height="12" viewBox="0 0 12 12" aria-hidden>
+            <path d="M1 4h2.5L6.5 1.5v9L3.5 8H1z" fill="currentColor"/>
+            {muted ?
+              <path d="M8 4l3 4M11 4L8 8" stroke="currentColor" strokeLinecap="round"/> :
+              <path d="M8.5 3.5a3.5 3.5 0 0 1 0 5" fill="none" stroke="currentColor" strokeLinecap="round"/>}
+          </svg>
+        </button>
+      </div>
+    </>
+  );
+}
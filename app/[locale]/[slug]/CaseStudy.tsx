@@ -0,0 +1,117 @@
+import Image from "next/image";
+import Link from "next/link";
+import RichText from "../../RichText";
+import Attachments from "../../Attachments";
+import TableOfContents from "./TableOfContents";
+import ReadingProgress from "./ReadingProgress";
+import ProfileTheme from "../../ProfileTheme";
+import LanguageSwitcher from "../../LanguageSwitcher";
+import { headingOutline, readingTime } from "../../markdown";
+import profileStyles from "../../Profile.module.css";
+import styles from "./CaseStudy.module.css";
+import { findCollaborators, type CaseStudy as CaseStudyData, type CV } from "../../cv";
+import type { CaseStudyLink } from "../../content";
+import { formatMessage } from "../../i18n";
+import { getMessages } from "../../messages";
+
+type CaseStudyProps = {
+  cv: CV,
+  caseStudy: CaseStudyData,
+  // The profile's path in the page's language, "" for the default profile at
+  // the top level.
+  basePath: string,
+  locale: string,
+  previous?: CaseStudyLink,
+  next?: CaseStudyLink,
+};
+const CaseStudy: React.FC<CaseStudyProps> = ({
+  cv,
+  caseStudy,
+  basePath,
+  locale,
+  previous,
+  next,
+}) => {
+  const messages = getMessages(locale);
+  const { meta } = caseStudy;
+  const headings = headingOutline(caseStudy.markdown);
+  const minutes = readingTime(caseStudy.markdown);
+  const details = [
+    { label: messages.role, value: meta.role },
+    { label: messages.company, value: meta.company },
+    { label: messages.year, value: meta.year },
+    { label: messages.with, value: findCollaborators(cv, meta.collaborators).map((collaborator) => collaborator.displayName).join(", ") },
+  ].filter((detail) => detail.value);
+
+  return (
+    <article className={profileStyles.profile}>
+      <ProfileTheme theme={cv.general.theme} />
+      <ReadingProgress />
+      <Link href={basePath || "/"} className={`${profileStyles.profileHeader} ${styles.header}`}>
+        <div className={`${profileStyles.profilePhoto} ${styles.photo}`}>
+          <Image src={cv.general.profilePhoto} alt="" width={48} height={48} />
+        </div>
+        <div className={profileStyles.profileInfo}>
+          <div className={styles.name}>{cv.general.displayName}</div>
+          <div className={profileStyles.byline}>{cv.general.byline}</div>
+        </div>
+      </Link>
+
+      <header className={styles.titleBlock}>
+        <h1>{meta.title}</h1>
+        <div className={styles.readingTime}>{formatMessage(messages.minutesRead, { minutes })}</div>
+        {meta.summary ? (
+          <div className={profileStyles.description}>{meta.summary}</div>
+        ) : null}
+      </header>
+
+      {details.length > 0 ? (
+        <dl className={styles.meta}>
+          {details.map((detail) => (
+            <div className={profileStyles.experience} key={detail.label}>
+              <dt className={profileStyles.year}>
+                <span>{detail.label}</span>
+              </dt>
+              <dd>{detail.value}</dd>
+            </div>
+          ))}
+        </dl>
+      ) : null}
+
+      {meta.cover.length > 0 ? (
+        <Attachments attachments={meta.cover} id="cover" />
+      ) : null}
+
+      {headings.length > 1 ? (
+        <TableOfContents headings={headings} />
+      ) : null}
+
+      <div className={`${profileStyles.description} ${styles.body}`}>
+        <RichText text={caseStudy.markdown} media={caseStudy.media} />
+      </div>
+
+      <nav className={styles.footer}>
+        {previous || next ? (
+          <div className={styles.adjacent}>
+            {previous ? (
+              <Link href={`${basePath}/${previous.slug}`}>
+                <span>{messages.previous}</span>
+                {previous.title}
+              </Link>
+            ) : <span/>}
+            {next ? (
+              <Link href={`${basePath}/${next.slug}`} className={styles.next}>
+                <span>{messages.next}</span>
+                {next.title}
+              </Link>
+            ) : null}
+          </div>
+        ) : null}
+        <Link href={basePath || "/"}>&larr; {formatMessage(messages.backTo, { name: cv.general.displayName })}</Link>
+        <LanguageSwitcher locale={locale} />
+      </nav>
+    </article>
+  );
+}
+
+export default CaseStudy;
@@ -0,0 +1,41 @@
+"use client"
+
+import { useEffect, useState } from "react";
+import { useMessages } from "../../MessagesProvider";
+import scrollbarStyles from "../../Scrollbar.module.css";
+import styles from "./CaseStudy.module.css";
+
+const ReadingProgress: React.FC = () => {
+  const messages = useMessages();
+  const [progress, setProgress] = useState(0);
+
+  useEffect(() => {
+    const onScroll = () => {
+      const scrollable = document.documentElement.scrollHeight - window.innerHeight;
+      setProgress(scrollable > 0 ? Math.min(1, window.scrollY / scrollable) : 0);
+    };
+    onScroll();
+    window.addEventListener('scroll', onScroll, { passive: true });
+    window.addEventListener('resize', onScroll);
+    return () => {
+      window.removeEventListener('scroll', onScroll);
+      window.removeEventListener('resize', onScroll);
+    };
+  }, []);
+
+  return (
+    <div
+      role="progressbar"
+      aria-label={messages.readingProgress}
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={Math.round(progress * 100)}
+      className={`${scrollbarStyles.track} ${styles.progress}`}>
+      <div
+        className={`${scrollbarStyles.bar} ${styles.progressBar}`}
+        style={{ width: progress * 100 + "%" }}/>
+    </div>
+  );
+}
+
+export default ReadingProgress;
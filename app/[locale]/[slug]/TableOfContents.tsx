@@ -0,0 +1,72 @@
+"use client"
+
+import { useEffect, useState } from "react";
+import { useIsMobile } from "../../isMobile";
+import type { Heading } from "../../markdown";
+import { useMessages } from "../../MessagesProvider";
+import styles from "./CaseStudy.module.css";
+
+// How far below the top of the viewport a heading has to scroll before its
+// section counts as the one being read.
+const activeOffset = 96;
+
+type TableOfContentsProps = {
+  headings: Array<Heading>,
+};
+const TableOfContents: React.FC<TableOfContentsProps> = ({
+  headings,
+}) => {
+  const messages = useMessages();
+  const isMobile = useIsMobile();
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const onScroll = () => {
+      let current: string | null = null;
+      for (const heading of headings) {
+        const element = document.getElementById(heading.id);
+        if (element && element.getBoundingClientRect().top <= activeOffset) {
+          current = heading.id;
+        }
+      }
+      setActiveId(current);
+    };
+    onScroll();
+    window.addEventListener('scroll', onScroll, { passive: true });
+    return () => window.removeEventListener('scroll', onScroll);
+  }, [headings]);
+
+  const list = (
+    <ol className={styles.tocList}>
+      {headings.map((heading) => (
+        <li
+          key={heading.id}
+          data-depth={heading.depth}
+          data-active={heading.id === activeId}>
+          <a
+            href={`#${heading.id}`}
+            aria-current={heading.id === activeId ? "location" : undefined}>
+            {heading.text}
+          </a>
+        </li>
+      ))}
+    </ol>
+  );
+
+  if (isMobile) {
+    return (
+      <details className={styles.tocCollapsible}>
+        <summary>{messages.contents}</summary>
+        {list}
+      </details>
+    );
+  }
+
+  return (
+    <nav aria-label={messages.tableOfContents} className={styles.toc}>
+      {list}
+    </nav>
+  );
+}
+
+export default TableOfContents;
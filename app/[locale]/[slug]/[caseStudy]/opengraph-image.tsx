@@ -0,0 +1,36 @@
+import { notFound } from 'next/navigation';
+import { getCaseStudy, getProfile, getProfileCaseStudies } from '../../../content';
+import { caseStudyImage, caseStudyImageAlt, ogContentType, ogSize } from '../../../og';
+
+export const size = ogSize
+
+export const contentType = ogContentType
+
+export async function generateStaticParams() {
+  const caseStudies = await getProfileCaseStudies();
+  return caseStudies.map(({ username, slug }) => ({ slug: username, caseStudy: slug }));
+}
+
+type ImageProps = {
+  params: { locale: string, slug: string, caseStudy: string },
+};
+
+export async function generateImageMetadata({ params }: ImageProps) {
+  const cv = await getProfile(params.slug, params.locale);
+  const caseStudy = await getCaseStudy(params.caseStudy, params.slug, params.locale);
+  return [{
+    id: 'case-study',
+    alt: caseStudy ? caseStudyImageAlt(cv, caseStudy, params.locale) : cv.general.displayName,
+    size,
+    contentType,
+  }];
+}
+
+export default async function Image({ params }: ImageProps) {
+  const cv = await getProfile(params.slug, params.locale);
+  const caseStudy = await getCaseStudy(params.caseStudy, params.slug, params.locale);
+  if (!caseStudy) {
+    notFound();
+  }
+  return caseStudyImage(cv, caseStudy);
+}
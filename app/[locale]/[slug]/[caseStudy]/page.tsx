@@ -0,0 +1,60 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import pageStyles from '../../../page.module.css';
+import CaseStudy from '../CaseStudy';
+import { caseStudyMetadata } from '../../../metadata';
+import {
+  getAdjacentCaseStudies,
+  getCaseStudy,
+  getProfile,
+  getProfileCaseStudies,
+} from '../../../content';
+import { localePrefix } from '../../../i18n';
+
+export const dynamicParams = false;
+
+export async function generateStaticParams() {
+  const caseStudies = await getProfileCaseStudies();
+  return caseStudies.map(({ username, slug }) => ({ slug: username, caseStudy: slug }));
+}
+
+type CaseStudyPageProps = {
+  params: Promise<{ locale: string, slug: string, caseStudy: string }>
+};
+
+export async function generateMetadata({
+  params,
+}: CaseStudyPageProps): Promise<Metadata> {
+  const { locale, slug: username, caseStudy: slug } = await params;
+  const cv = await getProfile(username, locale);
+  const caseStudy = await getCaseStudy(slug, username, locale);
+  if (!caseStudy) {
+    return {};
+  }
+  return caseStudyMetadata(cv, caseStudy, locale);
+}
+
+export default async function CaseStudyPage({
+  params,
+}: CaseStudyPageProps) {
+  const { locale, slug: username, caseStudy: slug } = await params;
+  const cv = await getProfile(username, locale);
+  const caseStudy = await getCaseStudy(slug, username, locale);
+  if (caseStudy === null) {
+    notFound();
+  }
+  const { previous, next } = await getAdjacentCaseStudies(slug, username, locale);
+
+  return (
+    <div className={pageStyles.page}>
+      <CaseStudy
+        cv={cv}
+        caseStudy={caseStudy}
+        basePath={`${localePrefix(locale)}/${username}`}
+        locale={locale}
+        previous={previous}
+        next={next}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { notFound } from 'next/navigation';
+import { getCaseStudy, getProfile, getTopLevelSlugs, hasProfile } from '../../content';
+import { caseStudyImage, caseStudyImageAlt, ogContentType, ogSize, profileImage, profileImageAlt } from '../../og';
+
+export const size = ogSize
+
+export const contentType = ogContentType
+
+export async function generateStaticParams() {
+  const slugs = await getTopLevelSlugs();
+  return slugs.map((slug) => ({ slug }));
+}
+
+type ImageProps = {
+  params: { locale: string, slug: string },
+};
+
+export async function generateImageMetadata({ params }: ImageProps) {
+  const { locale, slug } = params;
+  if (await hasProfile(slug)) {
+    return [{
+      id: 'profile',
+      alt: profileImageAlt(await getProfile(slug, locale)),
+      size,
+      contentType,
+    }];
+  }
+  const cv = await getProfile(undefined, locale);
+  const caseStudy = await getCaseStudy(slug, undefined, locale);
+  return [{
+    id: 'case-study',
+    alt: caseStudy ? caseStudyImageAlt(cv, caseStudy, locale) : cv.general.displayName,
+    size,
+    contentType,
+  }];
+}
+
+export default async function Image({ params }: ImageProps) {
+  const { locale, slug } = params;
+  if (await hasProfile(slug)) {
+    return profileImage(await getProfile(slug, locale));
+  }
+  const cv = await getProfile(undefined, locale);
+  const caseStudy = await getCaseStudy(slug, undefined, locale);
+  if (!caseStudy) {
+    notFound();
+  }
+  return caseStudyImage(cv, caseStudy);
+}
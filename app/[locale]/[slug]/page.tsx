@@ -0,0 +1,82 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import pageStyles from '../../page.module.css';
+import Profile from '../../Profile';
+import StructuredData from '../../StructuredData';
+import CaseStudy from './CaseStudy';
+import { caseStudyMetadata, profileMetadata } from '../../metadata';
+import {
+  getAdjacentCaseStudies,
+  getCaseStudy,
+  getDefaultUsername,
+  getProfile,
+  getProfilePath,
+  getResumeURL,
+  getTopLevelSlugs,
+  hasProfile,
+} from '../../content';
+import { localePrefix } from '../../i18n';
+
+export const dynamicParams = false;
+
+// A slug is either a profile's username or one of the default profile's
+// case studies; content.ts makes sure the two never overlap.
+export async function generateStaticParams() {
+  const slugs = await getTopLevelSlugs();
+  return slugs.map((slug) => ({ slug }));
+}
+
+type SlugPageProps = {
+  params: Promise<{ locale: string, slug: string }>
+};
+
+export async function generateMetadata({
+  params,
+}: SlugPageProps): Promise<Metadata> {
+  const { locale, slug } = await params;
+  if (await hasProfile(slug)) {
+    return profileMetadata(await getProfile(slug, locale), locale);
+  }
+  const cv = await getProfile(undefined, locale);
+  const caseStudy = await getCaseStudy(slug, undefined, locale);
+  if (!caseStudy) {
+    return {};
+  }
+  return caseStudyMetadata(cv, caseStudy, locale);
+}
+
+export default async function SlugPage({
+  params,
+}: SlugPageProps) {
+  const { locale, slug } = await params;
+  const prefix = localePrefix(locale);
+
+  if (await hasProfile(slug)) {
+    const cv = await getProfile(slug, locale);
+    const isDefault = slug === await getDefaultUsername();
+    return (
+      <div className={pageStyles.page}>
+        <StructuredData cv={cv} path={prefix + await getProfilePath(slug)} />
+        <Profile
+          cv={cv}
+          basePath={`${prefix}/${slug}`}
+          resumeURL={isDefault ? getResumeURL(locale) : undefined}
+          locale={locale}
+        />
+      </div>
+    );
+  }
+
+  const cv = await getProfile(undefined, locale);
+  const caseStudy = await getCaseStudy(slug, undefined, locale);
+  if (caseStudy === null) {
+    notFound();
+  }
+  const { previous, next } = await getAdjacentCaseStudies(slug, undefined, locale);
+
+  return (
+    <div className={pageStyles.page}>
+      <CaseStudy cv={cv} caseStudy={caseStudy} basePath={prefix} locale={locale} previous={previous} next={next} />
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import Document from "../Document";
+import { locales } from "../i18n";
+
+export const dynamicParams = false;
+
+// Every page is prerendered in each of the site's languages. The default
+// language is served without its prefix; see middleware.ts.
+export function generateStaticParams() {
+  return locales.map((locale) => ({ locale }));
+}
+
+type LocaleLayoutProps = {
+  children: React.ReactNode,
+  params: Promise<{ locale: string }>,
+};
+
+export default async function LocaleLayout({ children, params }: LocaleLayoutProps) {
+  const { locale } = await params;
+  return <Document lang={locale}>{children}</Document>;
+}
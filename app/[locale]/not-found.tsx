@@ -0,0 +1,6 @@
+import NotFoundPage from "../NotFoundPage";
+
+// Rendered inside app/[locale]'s layout, so in the language's document.
+export default function NotFound() {
+  return <NotFoundPage />;
+}
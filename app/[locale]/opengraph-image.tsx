@@ -0,0 +1,33 @@
+import { getDefaultUsername, getProfile } from '../content';
+import { locales } from '../i18n';
+import { ogContentType, ogSize, profileImage, profileImageAlt } from '../og';
+
+export const size = ogSize
+
+export const contentType = ogContentType
+
+export function generateStaticParams() {
+  return locales.map((locale) => ({ locale }));
+}
+
+type ImageProps = {
+  params: { locale: string },
+};
+
+// Without a default profile, / is the index and goes without an image.
+export async function generateImageMetadata({ params }: ImageProps) {
+  const username = await getDefaultUsername();
+  if (username === undefined) {
+    return [];
+  }
+  return [{
+    id: 'profile',
+    alt: profileImageAlt(await getProfile(username, params.locale)),
+    size,
+    contentType,
+  }];
+}
+
+export default async function Image({ params }: ImageProps) {
+  return profileImage(await getProfile(undefined, params.locale));
+}
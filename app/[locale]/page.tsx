@@ -0,0 +1,42 @@
+import type { Metadata } from "next";
+import styles from "../page.module.css";
+import Profile from "../Profile";
+import ProfileIndex from "../ProfileIndex";
+import StructuredData from "../StructuredData";
+import { profileMetadata } from "../metadata";
+import { getDefaultUsername, getProfile, getResumeURL } from "../content";
+import { localePrefix } from "../i18n";
+import { getMessages } from "../messages";
+
+type HomeProps = {
+  params: Promise<{ locale: string }>
+};
+
+export async function generateMetadata({ params }: HomeProps): Promise<Metadata> {
+  const { locale } = await params;
+  const username = await getDefaultUsername();
+  if (username === undefined) {
+    return { title: getMessages(locale).profiles };
+  }
+  return profileMetadata(await getProfile(username, locale), locale);
+}
+
+export default async function Home({ params }: HomeProps) {
+  const { locale } = await params;
+  const username = await getDefaultUsername();
+  if (username === undefined) {
+    return (
+      <div className={styles.page}>
+        <ProfileIndex locale={locale} />
+      </div>
+    );
+  }
+  const cv = await getProfile(username, locale);
+
+  return (
+    <div className={styles.page}>
+      <StructuredData cv={cv} path={localePrefix(locale)} />
+      <Profile cv={cv} basePath={localePrefix(locale)} resumeURL={getResumeURL(locale)} locale={locale} />
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import RichText from "../../RichText";
+import styles from "./Resume.module.css";
+import type { Contact, CV, Experience, ExperienceKey } from "../../cv";
+import { buildSections, itemTitle } from "../../sections";
+import { getMessages } from "../../messages";
+
+// Links are printed as their address, since a PDF reader may not follow them.
+function displayURL(url: string) {
+  return url.replace(/^https?:\/\/(www\.)?/, "").replace(/\/$/, "");
+}
+
+type ResumeProps = {
+  cv: CV,
+  locale: string,
+};
+
+// The whole profile as a single-column document: no photos, galleries or case
+// study links, just the text, laid out to paginate cleanly when printed.
+const Resume: React.FC<ResumeProps> = ({ cv, locale }) => {
+  const messages = getMessages(locale);
+  const { general } = cv;
+  const details = [
+    general.byline,
+    general.location,
+    general.websiteURL ? displayURL(general.websiteURL) : general.website,
+  ].filter(Boolean);
+
+  return (
+    <div className={styles.resume}>
+      <header className={styles.header}>
+        <h1>{general.displayName}</h1>
+        {details.length > 0 ? (
+          <div className={styles.details}>{details.join(" · ")}</div>
+        ) : null}
+      </header>
+
+      {general.about ? (
+        <section className={styles.section}>
+          <h2>{messages.about}</h2>
+          <div className={styles.description}>
+            <RichText text={general.about} />
+          </div>
+        </section>
+      ) : null}
+
+      {buildSections(cv).map((section) => {
+        return (
+          <section key={section.key} className={styles.section}>
+            <h2>{messages.sections[section.name] ?? section.name}</h2>
+            {section.key === "contact" ? (
+              <div className={styles.contacts}>
+                {section.items.map((contact, index) => (
+                  <ResumeContact key={contact.id || `contact-${index}`} contact={contact} />
+                ))}
+              </div>
+            ) : (
+              section.items.map((experience, index) => (
+                <ResumeItem
+                  key={experience.id || `item-${index}`}
+                  sectionKey={section.key}
+                  experience={experience}
+                />
+              ))
+            )}
+          </section>
+        );
+      })}
+    </div>
+  );
+};
+
+type ResumeItemProps = {
+  sectionKey: ExperienceKey,
+  experience: Experience,
+};
+const ResumeItem: React.FC<ResumeItemProps> = ({ sectionKey, experience }) => {
+  const { heading, subtitle } = itemTitle(sectionKey, experience);
+  return (
+    <div className={styles.item}>
+      <div className={styles.itemHeader}>
+        <div className={styles.heading}>{heading}</div>
+        <div className={styles.year}>{experience.year}</div>
+      </div>
+      {subtitle || experience.url ? (
+        <div className={styles.subtitle}>
+          {[subtitle, experience.url ? displayURL(experience.url) : null].filter(Boolean).join(" · ")}
+        </div>
+      ) : null}
+      {experience.description ? (
+        <div className={styles.description}>
+          <RichText text={experience.description} />
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+const ResumeContact: React.FC<{ contact: Contact }> = ({ contact }) => {
+  return (
+    <div className={styles.contact}>
+      <span className={styles.platform}>{contact.platform}</span>
+      <span>{contact.url ? displayURL(contact.url) : contact.handle}</span>
+    </div>
+  );
+};
+
+export default Resume;
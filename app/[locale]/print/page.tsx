@@ -0,0 +1,36 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import Resume from './Resume';
+import { getDefaultUsername, getProfile } from '../../content';
+import { defaultImageMetadata } from '../../metadata';
+import { formatMessage } from '../../i18n';
+import { getMessages } from '../../messages';
+
+type PrintPageProps = {
+  params: Promise<{ locale: string }>
+};
+
+export async function generateMetadata({ params }: PrintPageProps): Promise<Metadata> {
+  const { locale } = await params;
+  if (await getDefaultUsername() === undefined) {
+    return {};
+  }
+  const cv = await getProfile(undefined, locale);
+  return {
+    ...await defaultImageMetadata(locale),
+    title: formatMessage(getMessages(locale).resumeTitle, { name: cv.general.displayName }),
+    robots: { index: false },
+  };
+}
+
+// The source of the downloadable PDF (see scripts/pdf.ts), and a page that
+// prints cleanly from the browser too. Only the default profile has one. The
+// PDF is printed in the default language; the others print from here.
+export default async function PrintPage({ params }: PrintPageProps) {
+  const { locale } = await params;
+  if (await getDefaultUsername() === undefined) {
+    notFound();
+  }
+  const cv = await getProfile(undefined, locale);
+  return <Resume cv={cv} locale={locale} />;
+}
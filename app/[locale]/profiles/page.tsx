@@ -0,0 +1,25 @@
+import type { Metadata } from "next";
+import pageStyles from "../../page.module.css";
+import ProfileIndex from "../../ProfileIndex";
+import { defaultImageMetadata } from "../../metadata";
+import { getMessages } from "../../messages";
+
+type ProfilesPageProps = {
+  params: Promise<{ locale: string }>
+};
+
+export async function generateMetadata({ params }: ProfilesPageProps): Promise<Metadata> {
+  const { locale } = await params;
+  return {
+    ...await defaultImageMetadata(locale),
+    title: getMessages(locale).profiles,
+  };
+}
+
+export default async function ProfilesPage({ params }: ProfilesPageProps) {
+  return (
+    <div className={pageStyles.page}>
+      <ProfileIndex locale={(await params).locale} />
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { getDefaultUsername, getProfile, getSiteURL } from '../content';
+import { toVCard } from '../exports';
+
+export const dynamic = 'force-static';
+
+// Exports the default profile, if there is one.
+export async function GET() {
+  if (await getDefaultUsername() === undefined) {
+    return new Response(null, { status: 404 });
+  }
+  const cv = await getProfile();
+  return new Response(toVCard(cv, getSiteURL()), {
+    headers: {
+      'Content-Type': 'text/vcard; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${cv.general.username}.vcf"`,
+    },
+  });
+}
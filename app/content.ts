@@ -0,0 +1,630 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { cache } from 'react';
+import matter from 'gray-matter';
+import { imageSize } from 'image-size';
+import {
+  experienceKeys,
+  type Attachment,
+  type CaseStudy,
+  type CV,
+  type Experience,
+  type MediaManifest,
+  type MediaMap,
+} from "./cv";
+import { defaultLocale, isLocale, localePath, locales } from "./i18n";
+import { imageURLs } from "./markdown";
+import { buildSections } from "./sections";
+import {
+  CVValidationError,
+  checkCollaborators,
+  parseCV,
+  validateCaseStudyMeta,
+  type MediaLookup,
+} from "./validateCV";
+
+// Where content comes from. The app only ever reads through this interface,
+// so the filesystem implementation below can be swapped for another backend.
+// Profiles are either the single profile at the root of the content, or one
+// per directory under content/profiles, named after its username; `username`
+// is left out to read the root one. Only the editor (app/edit) writes.
+export type ContentSource = {
+  listProfiles: () => Promise<Array<string>>,
+  readProfile: (username?: string) => Promise<string | null>,
+  listCaseStudies: (username?: string) => Promise<Array<string>>,
+  // Reads a case study's translation into `locale` when one is given.
+  readCaseStudy: (slug: string, username?: string, locale?: string) => Promise<string | null>,
+  readMedia: (url: string) => Promise<Buffer | null>,
+  mediaExists: (url: string) => Promise<boolean>,
+  readMediaManifest: () => Promise<MediaManifest>,
+  writeProfile: (json: string, username?: string) => Promise<void>,
+  writeCaseStudy: (slug: string, markdown: string, username?: string) => Promise<void>,
+  // Adds a file to the profile's media directory and returns its URL.
+  writeMedia: (name: string, data: Buffer, username?: string) => Promise<string>,
+};
+
+// Written by `npm run media` (scripts/media.ts) along with the resized images
+// and posters next to it.
+export const generatedMediaURL = '/content/.generated';
+
+// Where the site is served, for absolute URLs in metadata and exports. Set
+// SITE_URL in production; Vercel deployments fall back to their own domain.
+export function getSiteURL() {
+  if (process.env.SITE_URL) {
+    return process.env.SITE_URL.replace(/\/$/, '');
+  }
+  if (process.env.VERCEL_PROJECT_PRODUCTION_URL) {
+    return `https://${process.env.VERCEL_PROJECT_PRODUCTION_URL}`;
+  }
+  return `http://localhost:${process.env.PORT || 3000}`;
+}
+
+// Printed from /print by scripts/pdf.ts after `next build`, into public/ so
+// it's deployed as a static file with the rest of the build. RESUME_PDF=off
+// builds without it.
+export const resumePDFURL = '/resume.pdf';
+export const resumePDFFile = path.join(process.cwd(), 'public', 'resume.pdf');
+
+export function isResumePDFEnabled() {
+  return process.env.RESUME_PDF !== 'off';
+}
+
+// The dev server never has a PDF, so it links the page the PDF is made from,
+// as do other languages, since the PDF is printed in the default one, and
+// builds without the PDF.
+export function getResumeURL(locale: string = defaultLocale) {
+  if (process.env.NODE_ENV === 'development' || locale !== defaultLocale || !isResumePDFEnabled()) {
+    return localePath(locale, '/print');
+  }
+  return resumePDFURL;
+}
+
+// A case study's translation sits next to it as <slug>.<locale>.md, for one of
+// the site's languages; other dotted names, like v1.2.md, are case studies.
+function isTranslation(slug: string) {
+  return isLocale(path.extname(slug).slice(1));
+}
+
+export function fileSystemSource(publicDir: string = path.join(process.cwd(), 'public')): ContentSource {
+  // Resolves a site-relative URL like /content/media/a.png inside publicDir,
+  // refusing anything that would escape it.
+  const resolve = (url: string) => {
+    const file = path.join(publicDir, decodeURI(url));
+    return file.startsWith(publicDir + path.sep) ? file : null;
+  };
+
+  const read = async (file: string | null) => {
+    if (!file) { return null }
+    try {
+      return await fs.readFile(file);
+    } catch {
+      return null;
+    }
+  };
+
+  const contentURL = (username?: string) => username ? `/content/profiles/${username}` : '/content';
+
+  return {
+    listProfiles: async () => {
+      const directory = path.join(publicDir, 'content', 'profiles');
+      const entries = await fs.readdir(directory, { withFileTypes: true }).catch(() => []);
+      const usernames: Array<string> = [];
+      for (const entry of entries) {
+        if (entry.isDirectory() && await read(path.join(directory, entry.name, 'profileData.json'))) {
+          usernames.push(entry.name);
+        }
+      }
+      return usernames.sort();
+    },
+    readProfile: async (username) => {
+      const file = await read(resolve(`${contentURL(username)}/profileData.json`));
+      return file ? file.toString('utf8') : null;
+    },
+    listCaseStudies: async (username) => {
+      const files = await fs.readdir(path.join(publicDir, contentURL(username)));
+      return files
+        .filter((file) => file.endsWith('.md'))
+        .map((file) => file.slice(0, -'.md'.length))
+        .filter((slug) => !isTranslation(slug))
+        .sort();
+    },
+    readCaseStudy: async (slug, username, locale) => {
+      const file = await read(resolve(`${contentURL(username)}/${locale ? `${slug}.${locale}` : slug}.md`));
+      return file ? file.toString('utf8') : null;
+    },
+    readMedia: (url) => read(resolve(url)),
+    mediaExists: async (url) => {
+      const file = resolve(url);
+      if (!file) { return false }
+      try {
+        await fs.access(file);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    readMediaManifest: async () => {
+      const file = await read(resolve(`${generatedMediaURL}/media.json`));
+      return file ? JSON.parse(file.toString('utf8')) : {};
+    },
+    writeProfile: async (json, username) => {
+      await fs.writeFile(path.join(publicDir, contentURL(username), 'profileData.json'), json);
+    },
+    writeCaseStudy: async (slug, markdown, username) => {
+      const file = resolve(`${contentURL(username)}/${slug}.md`);
+      if (!file) {
+        throw new Error(`Can't write a case study named ${slug}`);
+      }
+      await fs.writeFile(file, markdown);
+    },
+    // Numbers around existing files rather than replacing them.
+    writeMedia: async (name, data, username) => {
+      const directory = `${contentURL(username)}/media`;
+      const { name: base, ext } = path.parse(name);
+      const safe = base.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'media';
+      await fs.mkdir(path.join(publicDir, directory), { recursive: true });
+      for (let n = 1; ; n++) {
+        const url = `${directory}/${n === 1 ? safe : `${safe}-${n}`}${ext.toLowerCase()}`;
+        try {
+          await fs.writeFile(path.join(publicDir, url), data, { flag: 'wx' });
+          return url;
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== 'EEXIST') { throw error }
+        }
+      }
+    },
+  };
+}
+
+let source: ContentSource = fileSystemSource();
+let memoized: Promise<Profiles> | null = null;
+
+export function setContentSource(next: ContentSource) {
+  source = next;
+  memoized = null;
+}
+
+function blankToUndefined(value: string | undefined) {
+  return value && value.trim() !== "" ? value : undefined;
+}
+
+function normalizeExperience(item: Experience): Experience {
+  return {
+    ...item,
+    url: blankToUndefined(item.url ?? undefined) ?? null,
+    description: blankToUndefined(item.description),
+    title: blankToUndefined(item.title),
+    company: blankToUndefined(item.company),
+    location: blankToUndefined(item.location),
+  };
+}
+
+function withMediaInfo(attachment: Attachment, manifest: MediaManifest): Attachment {
+  const info = manifest[attachment.url];
+  if (!info) {
+    return attachment;
+  }
+  return {
+    ...attachment,
+    poster: attachment.poster || info.poster,
+    blurDataURL: info.blurDataURL,
+    variants: info.variants,
+  };
+}
+
+function mediaLookup(manifest: MediaManifest): MediaLookup {
+  return {
+    exists: source.mediaExists,
+    dimensions: (url) => manifest[url],
+  };
+}
+
+const getMediaManifest = cache(() => source.readMediaManifest());
+
+function normalizeCV(cv: CV, manifest: MediaManifest): CV {
+  const normalized: CV = {
+    ...cv,
+    general: {
+      ...cv.general,
+      websiteURL: cv.general.websiteURL ||
+        (cv.general.website ? `https://${cv.general.website}` : undefined),
+    },
+  };
+  for (const key of experienceKeys) {
+    normalized[key] = cv[key].map((item) => normalizeExperience({
+      ...item,
+      attachments: item.attachments.map((attachment) => withMediaInfo(attachment, manifest)),
+    }));
+  }
+  return normalized;
+}
+
+// Resolves each item's case study: an explicit `caseStudy` slug wins, then a
+// case study whose frontmatter names the item, then one whose slug is the id.
+// Case study collaborators are checked against the registry here too.
+async function linkCaseStudies(cv: CV, directory?: string): Promise<CV> {
+  const slugs = await source.listCaseStudies(directory);
+  const ids = new Set(experienceKeys.flatMap((key) => cv[key].map((item) => item.id)));
+  const claimed = new Map<string, string>();
+  for (const slug of slugs) {
+    const caseStudy = await readCaseStudy(slug, directory);
+    const file = contentFile(`${slug}.md`, directory);
+    if (caseStudy) {
+      checkCollaborators(caseStudy.meta.collaborators, "frontmatter.collaborators", cv.collaborators, file);
+    }
+    const id = caseStudy?.meta.experience;
+    if (!id) { continue }
+    if (!ids.has(id)) {
+      throw new CVValidationError("frontmatter.experience", `no item with id ${JSON.stringify(id)}`, file);
+    }
+    claimed.set(id, slug);
+  }
+
+  const linked: CV = { ...cv };
+  for (const key of experienceKeys) {
+    linked[key] = cv[key].map((item, index) => {
+      if (item.caseStudy && !slugs.includes(item.caseStudy)) {
+        throw new CVValidationError(
+          `${key}[${index}].caseStudy`,
+          `no case study named ${item.caseStudy}.md`,
+          contentFile("profileData.json", directory),
+        );
+      }
+      const caseStudy = item.caseStudy ||
+        claimed.get(item.id) ||
+        (slugs.includes(item.id) ? item.id : undefined);
+      return { ...item, caseStudy };
+    });
+  }
+  return linked;
+}
+
+// Names a content file the way errors refer to it, relative to content/.
+function contentFile(name: string, directory?: string) {
+  return directory ? `profiles/${directory}/${name}` : name;
+}
+
+// A profile and the directory under content/profiles it was read from, which
+// is undefined for the root profile.
+type LoadedProfile = {
+  cv: CV,
+  directory?: string,
+};
+
+type Profiles = {
+  byUsername: Map<string, LoadedProfile>,
+  defaultUsername?: string,
+};
+
+// Top-level routes a profile with one of these usernames would be hidden by.
+// The language prefixes in i18n.ts are taken too.
+const reservedUsernames = ["edit", "print", "profiles"];
+
+// Validates, normalizes and links a profile's JSON as it would be if it were
+// stored in `directory`, so the editor can preview a draft without saving it.
+// Translated text is resolved to `locale`.
+export async function buildProfile(json: string, directory?: string, locale?: string): Promise<CV> {
+  const manifest = await getMediaManifest();
+  const file = contentFile("profileData.json", directory);
+  const cv = await parseCV(json, mediaLookup(manifest), file, locale);
+  if (directory !== undefined && cv.general.username !== directory) {
+    throw new CVValidationError("general.username", `must match the profile's directory, ${JSON.stringify(directory)}`, file);
+  }
+  return linkCaseStudies(normalizeCV(cv, manifest), directory);
+}
+
+const loadCV = cache(async (directory?: string, locale?: string) => {
+  const json = await source.readProfile(directory);
+  if (json === null) {
+    throw new Error(`${contentFile("profileData.json", directory)} doesn't exist`);
+  }
+  return buildProfile(json, directory, locale);
+});
+
+const loadProfiles = cache(async (): Promise<Profiles> => {
+  const loaded: Array<LoadedProfile> = [];
+  if (await source.readProfile() !== null) {
+    loaded.push({ cv: await loadCV() });
+  }
+  for (const directory of await source.listProfiles()) {
+    loaded.push({ cv: await loadCV(directory), directory });
+  }
+
+  const byUsername = new Map<string, LoadedProfile>();
+  for (const profile of loaded) {
+    const { username } = profile.cv.general;
+    const file = contentFile("profileData.json", profile.directory);
+    if (byUsername.has(username)) {
+      throw new CVValidationError("general.username", `${JSON.stringify(username)} is used by another profile`, file);
+    }
+    if (reservedUsernames.includes(username) || locales.includes(username)) {
+      throw new CVValidationError("general.username", `${JSON.stringify(username)} is reserved for /${username}`, file);
+    }
+    byUsername.set(username, profile);
+  }
+
+  // DEFAULT_PROFILE picks the profile shown at /. Without it that's the root
+  // profile, or the only profile there is; otherwise / lists them all.
+  const root = loaded.find((profile) => profile.directory === undefined);
+  const defaultUsername = process.env.DEFAULT_PROFILE ||
+    root?.cv.general.username ||
+    (loaded.length === 1 ? loaded[0].cv.general.username : undefined);
+  if (defaultUsername !== undefined) {
+    const profile = byUsername.get(defaultUsername);
+    if (!profile) {
+      throw new Error(`DEFAULT_PROFILE is ${JSON.stringify(defaultUsername)}, but no profile has that username`);
+    }
+    // The default profile's case studies sit at the top level, beside the
+    // other profiles.
+    for (const slug of await source.listCaseStudies(profile.directory)) {
+      if (locales.includes(slug)) {
+        throw new Error(`${contentFile(`${slug}.md`, profile.directory)} can't be served at /${slug}, which is reserved for a language`);
+      }
+      const other = byUsername.get(slug);
+      if (other) {
+        throw new CVValidationError(
+          "general.username",
+          `${JSON.stringify(slug)} is also the slug of one of ${defaultUsername}'s case studies`,
+          contentFile("profileData.json", other.directory),
+        );
+      }
+    }
+  }
+  return { byUsername, defaultUsername };
+});
+
+// Loads, validates and normalizes every profile. In production the result is
+// kept for the lifetime of the process (one build, or one server), while in
+// development it is only cached per request so edits show up on reload.
+function getLoadedProfiles(): Promise<Profiles> {
+  if (process.env.NODE_ENV === 'development') {
+    return loadProfiles();
+  }
+  if (!memoized) {
+    memoized = loadProfiles();
+    memoized.catch(() => { memoized = null });
+  }
+  return memoized;
+}
+
+async function findProfile(username?: string): Promise<LoadedProfile> {
+  const { byUsername, defaultUsername } = await getLoadedProfiles();
+  const profile = byUsername.get(username ?? defaultUsername ?? "");
+  if (!profile) {
+    throw new Error(username ? `There's no profile named ${username}` : "There's no default profile");
+  }
+  return profile;
+}
+
+// Every profile, ordered by name for the index.
+export async function getProfiles(locale?: string): Promise<Array<CV>> {
+  const { byUsername } = await getLoadedProfiles();
+  const profiles = await Promise.all(Array.from(byUsername.keys(), (username) => getProfile(username, locale)));
+  return profiles.sort((a, b) => a.general.displayName.localeCompare(b.general.displayName, locale));
+}
+
+export async function getDefaultUsername(): Promise<string | undefined> {
+  return (await getLoadedProfiles()).defaultUsername;
+}
+
+export async function hasProfile(username: string): Promise<boolean> {
+  return (await getLoadedProfiles()).byUsername.has(username);
+}
+
+// The path a profile's pages live under: "" for the default profile, which
+// is also served at /[username], and /[username] for the rest.
+export async function getProfilePath(username: string): Promise<string> {
+  return username === await getDefaultUsername() ? "" : `/${username}`;
+}
+
+// Everything /[slug] serves: each profile by username, and the default
+// profile's case studies.
+export async function getTopLevelSlugs(): Promise<Array<string>> {
+  const { byUsername, defaultUsername } = await getLoadedProfiles();
+  const slugs = defaultUsername !== undefined ? await getCaseStudySlugs(defaultUsername) : [];
+  return [...byUsername.keys(), ...slugs];
+}
+
+// Every profile's case studies, which /[username]/[slug] serves.
+export async function getProfileCaseStudies(): Promise<Array<{ username: string, slug: string }>> {
+  const { byUsername } = await getLoadedProfiles();
+  const caseStudies: Array<{ username: string, slug: string }> = [];
+  for (const [username, profile] of byUsername) {
+    for (const slug of await source.listCaseStudies(profile.directory)) {
+      caseStudies.push({ username, slug });
+    }
+  }
+  return caseStudies;
+}
+
+// A profile's CV, or the default profile's when no username is given, in
+// `locale` or the default language.
+export async function getProfile(username?: string, locale?: string): Promise<CV> {
+  const profile = await findProfile(username);
+  if (locale === undefined || locale === defaultLocale) {
+    return profile.cv;
+  }
+  return loadCV(profile.directory, locale);
+}
+
+export async function getCaseStudySlugs(username?: string): Promise<Array<string>> {
+  return source.listCaseStudies((await findProfile(username)).directory);
+}
+
+// A case study in `locale`, which is its translation when there is one and
+// the case study itself otherwise.
+export async function getCaseStudy(slug: string, username?: string, locale?: string): Promise<CaseStudy | null> {
+  return readCaseStudy(slug, (await findProfile(username)).directory, locale);
+}
+
+// Only slugs that correspond to an existing case study are ever read, so a
+// crafted slug can't reach outside of the content directory.
+const readCaseStudy = cache(async (slug: string, directory?: string, locale?: string): Promise<CaseStudy | null> => {
+  const slugs = await source.listCaseStudies(directory);
+  if (!slugs.includes(slug)) {
+    return null;
+  }
+  if (locale !== undefined && locale !== defaultLocale) {
+    const translation = await source.readCaseStudy(slug, directory, locale);
+    if (translation !== null) {
+      return parseCaseStudy(slug, translation, directory, locale);
+    }
+  }
+  const file = await source.readCaseStudy(slug, directory);
+  if (file === null) {
+    return null;
+  }
+  return parseCaseStudy(slug, file, directory);
+});
+
+// `locale` is given for a translation, which is written in that language
+// throughout and named <slug>.<locale>.md.
+export async function parseCaseStudy(slug: string, file: string, directory?: string, locale?: string): Promise<CaseStudy> {
+  const name = contentFile(locale ? `${slug}.${locale}.md` : `${slug}.md`, directory);
+  const { data, content } = matter(file);
+  const manifest = await getMediaManifest();
+  const meta = await validateCaseStudyMeta(data, name, mediaLookup(manifest), locale);
+  meta.cover = meta.cover.map((attachment) => withMediaInfo(attachment, manifest));
+
+  const media: MediaMap = {};
+  for (const url of imageURLs(content)) {
+    const attachment = await getMediaDimensions(url);
+    if (!attachment) {
+      const detail = await source.mediaExists(url)
+        ? `${url} hasn't been measured; run \`npm run media\`, which needs ffmpeg for videos`
+        : `${url} does not exist in public/`;
+      throw new CVValidationError("markdown", detail, name);
+    }
+    media[url] = attachment;
+  }
+  return { slug, meta, markdown: content, media };
+}
+
+export async function getMedia(url: string): Promise<Buffer | null> {
+  return source.readMedia(url);
+}
+
+const videoExtensions = /\.(mp4|webm|mov)$/i;
+
+// Looks a file up in the media manifest, falling back to reading an image's
+// dimensions from its header. A video's are only known from the poster
+// `npm run media` extracts, so one it hasn't measured is null, as is a
+// missing file.
+export async function getMediaDimensions(url: string): Promise<Attachment | null> {
+  const type = videoExtensions.test(url) ? "video" : "image";
+  const info = (await getMediaManifest())[url];
+  if (info && await source.mediaExists(url)) {
+    return withMediaInfo({ type, url, width: info.width, height: info.height }, { [url]: info });
+  }
+  if (type === "video") {
+    return null;
+  }
+  const file = await source.readMedia(url);
+  if (!file) {
+    return null;
+  }
+  const { width, height } = imageSize(file);
+  return { type: "image", url, width, height };
+}
+
+export type CaseStudyLink = {
+  slug: string,
+  title: string,
+};
+
+// All case studies in the order their items appear on the profile, followed
+// by any that aren't linked from an item.
+export async function getCaseStudyOrder(username?: string, locale?: string): Promise<Array<CaseStudyLink>> {
+  const cv = await getProfile(username, locale);
+  const ordered: Array<string> = [];
+  for (const section of buildSections(cv)) {
+    if (section.key === "contact") { continue }
+    for (const item of section.items) {
+      if (item.caseStudy && !ordered.includes(item.caseStudy)) {
+        ordered.push(item.caseStudy);
+      }
+    }
+  }
+  for (const slug of await getCaseStudySlugs(username)) {
+    if (!ordered.includes(slug)) {
+      ordered.push(slug);
+    }
+  }
+
+  const links: Array<CaseStudyLink> = [];
+  for (const slug of ordered) {
+    const caseStudy = await getCaseStudy(slug, username, locale);
+    if (caseStudy) {
+      links.push({ slug, title: caseStudy.meta.title });
+    }
+  }
+  return links;
+}
+
+export async function getAdjacentCaseStudies(slug: string, username?: string, locale?: string): Promise<{
+  previous?: CaseStudyLink,
+  next?: CaseStudyLink,
+}> {
+  const order = await getCaseStudyOrder(username, locale);
+  const index = order.findIndex((link) => link.slug === slug);
+  if (index === -1) {
+    return {};
+  }
+  return {
+    previous: order[index - 1],
+    next: order[index + 1],
+  };
+}
+
+// The editor (app/edit) works on the files themselves, since it has to open
+// content that doesn't validate yet. It names profiles by their directory
+// under content/profiles, with undefined for the root profile.
+
+export async function getProfileDirectories(): Promise<Array<string | undefined>> {
+  const directories: Array<string | undefined> = await source.listProfiles();
+  if (await source.readProfile() !== null) {
+    directories.unshift(undefined);
+  }
+  return directories;
+}
+
+export function readProfileFile(directory?: string): Promise<string | null> {
+  return source.readProfile(directory);
+}
+
+export async function writeProfileFile(json: string, directory?: string) {
+  await source.writeProfile(json, directory);
+  memoized = null;
+}
+
+export async function readCaseStudyFiles(directory?: string): Promise<Array<{ slug: string, markdown: string }>> {
+  const files: Array<{ slug: string, markdown: string }> = [];
+  for (const slug of await source.listCaseStudies(directory)) {
+    const markdown = await source.readCaseStudy(slug, directory);
+    if (markdown !== null) {
+      files.push({ slug, markdown });
+    }
+  }
+  return files;
+}
+
+// Only existing case studies can be written, for the same reason only they
+// can be read.
+export async function writeCaseStudyFile(slug: string, markdown: string, directory?: string) {
+  if (!(await source.listCaseStudies(directory)).includes(slug)) {
+    throw new Error(`There's no case study named ${slug}.md`);
+  }
+  await source.writeCaseStudy(slug, markdown, directory);
+  memoized = null;
+}
+
+// Saves an uploaded file into the profile's media and measures it. A video is
+// saved but null, since only `npm run media` can measure it.
+export async function addMedia(name: string, data: Buffer, directory?: string): Promise<Attachment | null> {
+  const url = await source.writeMedia(name, data, directory);
+  const attachment = await getMediaDimensions(url);
+  if (!attachment && !videoExtensions.test(url)) {
+    throw new Error(`Couldn't read ${url} after saving it`);
+  }
+  return attachment;
+}
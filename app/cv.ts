@@ -0,0 +1,212 @@
+// Content model for public/content/profileData.json. Everything the app
+// renders is derived from a `CV`; see validateCV.ts for the runtime checks.
+// A CV is always in one language: text that's translated in the JSON (see
+// `Localized`) is resolved to that language as it's loaded.
+
+export type MediaType = "image" | "video";
+
+// How translatable text is written in the JSON: a string in the site's
+// default language, or its translations keyed by locale, which must include
+// the default language (see i18n.ts). Languages without a translation show
+// the default.
+export type Localized = string | Record<string, string>;
+
+// A resized copy of an image, produced by the media pipeline.
+export type MediaVariant = {
+  url: string,
+  width: number,
+};
+
+// What scripts/media.ts records about each file in public/content/media.
+export type MediaInfo = {
+  width: number,
+  height: number,
+  blurDataURL?: string,
+  variants: Array<MediaVariant>,
+  poster?: string,
+};
+
+export type MediaManifest = Record<string, MediaInfo>;
+
+export type Attachment = {
+  type: MediaType,
+  url: string,
+  width: number,
+  height: number,
+  // Still frame shown before a video loads or while it isn't playing.
+  poster?: string,
+  alt?: string,
+  caption?: string,
+  credit?: string,
+  // Markdown, shown under the media in the lightbox.
+  description?: string,
+  // Filled in from the media manifest.
+  blurDataURL?: string,
+  variants?: Array<MediaVariant>,
+};
+
+// Shown as a pill in the header until it's two weeks old.
+export type Status = {
+  text: string | null,
+  emoji: string | null,
+  timestamp: string | null,
+};
+
+// A color used in both palettes, or one for each.
+export type ThemeColor = string | { light: string, dark: string };
+
+// Optional styling for a profile, layered over the site's palette.
+export type Theme = {
+  accent?: ThemeColor,
+  background?: ThemeColor,
+  // A CSS font stack, which falls back to Inter.
+  font?: string,
+};
+
+export type General = {
+  profilePhoto: string,
+  username: string,
+  displayName: string,
+  profession?: string,
+  location?: string,
+  pronouns?: string,
+  byline?: string,
+  website?: string,
+  websiteURL?: string,
+  about?: string,
+  status?: Status,
+  theme?: Theme,
+  sectionOrder: Array<string>,
+};
+
+// An entry in the collaborator registry (`collaborators` at the top level of
+// profileData.json), which items and case studies refer to by id.
+export type Collaborator = {
+  id: string,
+  displayName: string,
+  // Usually an image in public/content/collaborators; initials stand in
+  // when there isn't one.
+  profilePhoto: string | null,
+  profileURL?: string,
+  role?: string,
+};
+
+export type Experience = {
+  id: string,
+  year: string,
+  heading: string,
+  url?: string | null,
+  // Collaborator ids.
+  collaborators: Array<string>,
+  description?: string,
+  attachments: Array<Attachment>,
+  type?: string,
+  title?: string,
+  company?: string,
+  location?: string,
+  degree?: string,
+  school?: string,
+  venue?: string,
+  publication?: string,
+  // Slug of the linked case study. May be set in the JSON, otherwise it is
+  // filled in when a case study names this item or shares its id.
+  caseStudy?: string,
+};
+
+export type Contact = {
+  id: string,
+  platform: string,
+  handle: string,
+  url: string,
+};
+
+export type CV = {
+  general: General,
+  projects: Array<Experience>,
+  sideProjects: Array<Experience>,
+  exhibitions: Array<Experience>,
+  talks: Array<Experience>,
+  writing: Array<Experience>,
+  awards: Array<Experience>,
+  features: Array<Experience>,
+  workExperience: Array<Experience>,
+  volunteering: Array<Experience>,
+  education: Array<Experience>,
+  certifications: Array<Experience>,
+  contact: Array<Contact>,
+  collaborators: Array<Collaborator>,
+};
+
+// YAML frontmatter of a case study in public/content/<slug>.md.
+export type CaseStudyMeta = {
+  title: string,
+  year?: string,
+  role?: string,
+  company?: string,
+  // Collaborator ids, as on items.
+  collaborators: Array<string>,
+  cover: Array<Attachment>,
+  experience?: string,
+  summary?: string,
+};
+
+// Dimensions of media referenced inline from markdown, keyed by URL.
+export type MediaMap = Record<string, Attachment>;
+
+export type CaseStudy = {
+  slug: string,
+  meta: CaseStudyMeta,
+  markdown: string,
+  media: MediaMap,
+};
+
+export const experienceKeys = [
+  "projects",
+  "sideProjects",
+  "exhibitions",
+  "talks",
+  "writing",
+  "awards",
+  "features",
+  "workExperience",
+  "volunteering",
+  "education",
+  "certifications",
+] as const;
+
+export type ExperienceKey = typeof experienceKeys[number];
+export type SectionKey = ExperienceKey | "contact";
+
+// Maps the headings used in `general.sectionOrder` to the arrays that back them.
+export const sectionKeys: Record<string, SectionKey> = {
+  "Contact": "contact",
+  "Side Projects": "sideProjects",
+  "Projects": "projects",
+  "Work Experience": "workExperience",
+  "Exhibitions": "exhibitions",
+  "Speaking": "talks",
+  "Writing": "writing",
+  "Awards": "awards",
+  "Features": "features",
+  "Volunteering": "volunteering",
+  "Education": "education",
+  "Certifications": "certifications",
+};
+
+// Text that stands in for an attachment for screen readers.
+export function describeAttachment(media: Attachment): string {
+  return media.alt || media.caption || "";
+}
+
+export function findCollaborators(cv: CV, ids: Array<string>): Array<Collaborator> {
+  return ids
+    .map((id) => cv.collaborators.find((collaborator) => collaborator.id === id))
+    .filter((collaborator): collaborator is Collaborator => collaborator !== undefined);
+}
+
+// A one-line summary of who the profile belongs to, for page descriptions.
+export function describeProfile(general: General): string {
+  const parts = [general.byline, general.profession, general.location, general.pronouns]
+    .filter((part): part is string => Boolean(part));
+  return Array.from(new Set(parts)).join(" · ");
+}
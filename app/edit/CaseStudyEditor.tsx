@@ -0,0 +1,69 @@
+"use client"
+
+import { useState } from "react";
+import { saveCaseStudy } from "./actions";
+import styles from "./Editor.module.css";
+
+type CaseStudyEditorProps = {
+  directory?: string,
+  caseStudies: Array<{ slug: string, markdown: string }>,
+};
+
+// Edits a case study's markdown, frontmatter included, and saves it once the
+// frontmatter and inline media check out.
+const CaseStudyEditor: React.FC<CaseStudyEditorProps> = ({ directory, caseStudies }) => {
+  const [files, setFiles] = useState(caseStudies);
+  const [slug, setSlug] = useState(caseStudies[0]?.slug);
+  const [message, setMessage] = useState<{ error: boolean, text: string } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const file = files.find((candidate) => candidate.slug === slug);
+  if (!file) {
+    return <p className={styles.hint}>There are no case studies yet. Add a markdown file next to profileData.json to start one.</p>;
+  }
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const result = await saveCaseStudy(directory, file.slug, file.markdown);
+      setMessage(result.ok ? { error: false, text: `Saved ${file.slug}.md` } : { error: true, text: result.error });
+    } catch (error) {
+      setMessage({ error: true, text: (error as Error).message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className={styles.fields}>
+      <select
+        className={styles.button}
+        value={file.slug}
+        aria-label="Case study"
+        onChange={(event) => {
+          setSlug(event.target.value);
+          setMessage(null);
+        }}>
+        {files.map((candidate) => <option key={candidate.slug} value={candidate.slug}>{candidate.slug}.md</option>)}
+      </select>
+      <textarea
+        className={styles.markdown}
+        value={file.markdown}
+        aria-label={`${file.slug}.md`}
+        spellCheck
+        onChange={(event) => {
+          const markdown = event.target.value;
+          setFiles(files.map((candidate) => candidate.slug === file.slug ? { ...candidate, markdown } : candidate));
+        }}
+      />
+      <div className={styles.actions}>
+        <button type="button" className={styles.button} disabled={saving} onClick={save}>
+          {saving ? "Saving…" : "Save case study"}
+        </button>
+        {message ? <span className={message.error ? styles.error : styles.hint}>{message.text}</span> : null}
+      </div>
+    </div>
+  );
+}
+
+export default CaseStudyEditor;
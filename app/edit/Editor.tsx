@@ -0,0 +1,175 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import Profile from "../Profile";
+import Field, { UploadButton } from "./Field";
+import SectionEditor from "./SectionEditor";
+import CaseStudyEditor from "./CaseStudyEditor";
+import { previewProfile, saveProfile } from "./actions";
+import type { CV, General } from "../cv";
+import styles from "./Editor.module.css";
+
+type EditorProps = {
+  directory?: string,
+  profiles: Array<{ directory?: string, name: string }>,
+  initialDraft: CV,
+  initialPreview: CV | null,
+  initialError: string | null,
+  caseStudies: Array<{ slug: string, markdown: string }>,
+};
+
+// Edits profileData.json as it is on disk. Every change is validated on the
+// server and, when it passes, previewed with the same Profile the site uses;
+// saving writes the draft back only if it validates.
+const Editor: React.FC<EditorProps> = ({
+  directory,
+  profiles,
+  initialDraft,
+  initialPreview,
+  initialError,
+  caseStudies,
+}) => {
+  const [draft, setDraft] = useState(initialDraft);
+  const [saved, setSaved] = useState(initialDraft);
+  const [preview, setPreview] = useState(initialPreview);
+  const [error, setError] = useState(initialError);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ error: boolean, text: string } | null>(null);
+  const latest = useRef(0);
+  const dirty = draft !== saved;
+
+  useEffect(() => {
+    if (draft === initialDraft) { return }
+    const request = ++latest.current;
+    const timeout = setTimeout(async () => {
+      const result = await previewProfile(directory, draft);
+      if (request !== latest.current) { return }
+      if (result.ok) {
+        setPreview(result.value);
+        setError(null);
+      } else {
+        setError(result.error);
+      }
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [draft, directory, initialDraft]);
+
+  useEffect(() => {
+    if (!dirty) { return }
+    const onBeforeUnload = (event: BeforeUnloadEvent) => event.preventDefault();
+    window.addEventListener("beforeunload", onBeforeUnload);
+    return () => window.removeEventListener("beforeunload", onBeforeUnload);
+  }, [dirty]);
+
+  const uploadFailed = (text: string) => setMessage({ error: true, text });
+
+  const edit = (next: CV) => {
+    setDraft(next);
+    setMessage(null);
+  };
+  const setGeneral = (key: keyof General) => (value: string) => edit({ ...draft, general: { ...draft.general, [key]: value } });
+  const setStatus = (key: "text" | "emoji") => (value: string) => edit({
+    ...draft,
+    general: {
+      ...draft.general,
+      status: {
+        text: draft.general.status?.text ?? null,
+        emoji: draft.general.status?.emoji ?? null,
+        [key]: value || null,
+        timestamp: new Date().toISOString(),
+      },
+    },
+  });
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const result = await saveProfile(directory, draft);
+      if (result.ok) {
+        setSaved(draft);
+        setPreview(result.value);
+        setError(null);
+        setMessage({ error: false, text: "Saved" });
+      } else {
+        setError(result.error);
+      }
+    } catch (error) {
+      setError((error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className={styles.editor}>
+      <div className={styles.panel}>
+        <div className={styles.toolbar}>
+          {profiles.length > 1 ? (
+            <nav className={styles.profiles}>
+              {profiles.map((profile) => (
+                <Link
+                  key={profile.directory ?? ""}
+                  href={profile.directory ? `/edit?profile=${profile.directory}` : "/edit"}
+                  aria-current={profile.directory === directory ? "page" : undefined}>
+                  {profile.name}
+                </Link>
+              ))}
+            </nav>
+          ) : null}
+          <div className={styles.actions}>
+            <button type="button" className={styles.button} disabled={saving || !dirty || error !== null} onClick={save}>
+              {saving ? "Saving…" : "Save"}
+            </button>
+            {dirty ? <button type="button" className={styles.button} onClick={() => edit(saved)}>Discard changes</button> : null}
+            {message ? <span className={message.error ? styles.error : styles.hint}>{message.text}</span> : null}
+          </div>
+          {error ? <p className={styles.error} role="alert">{error}</p> : null}
+        </div>
+
+        <section className={styles.group}>
+          <h2>General</h2>
+          <div className={styles.fields}>
+            <div className={styles.photo}>
+              {draft.general.profilePhoto ? <img src={draft.general.profilePhoto} alt="" /> : null}
+              <UploadButton
+                directory={directory}
+                label="Change photo"
+                accept="image/*"
+                onUpload={(attachment) => setGeneral("profilePhoto")(attachment.url)}
+                onError={uploadFailed}
+              />
+            </div>
+            <Field label="Name" value={draft.general.displayName} onChange={setGeneral("displayName")} />
+            <Field label="Username" value={draft.general.username} onChange={setGeneral("username")} />
+            <Field label="Byline" value={draft.general.byline} onChange={setGeneral("byline")} />
+            <Field label="Profession" value={draft.general.profession} onChange={setGeneral("profession")} />
+            <Field label="Location" value={draft.general.location} onChange={setGeneral("location")} />
+            <Field label="Pronouns" value={draft.general.pronouns} onChange={setGeneral("pronouns")} />
+            <Field label="Website" value={draft.general.website} onChange={setGeneral("website")} placeholder="example.com" />
+            <Field label="Website URL" value={draft.general.websiteURL} onChange={setGeneral("websiteURL")} placeholder="https://example.com" />
+            <Field label="About" value={draft.general.about} onChange={setGeneral("about")} multiline />
+            <Field label="Status emoji" value={draft.general.status?.emoji} onChange={setStatus("emoji")} />
+            <Field label="Status" value={draft.general.status?.text} onChange={setStatus("text")} />
+          </div>
+        </section>
+
+        <section className={styles.group}>
+          <h2>Sections</h2>
+          <SectionEditor draft={draft} directory={directory} onChange={edit} onError={uploadFailed} />
+        </section>
+
+        <section className={styles.group}>
+          <h2>Case studies</h2>
+          <CaseStudyEditor directory={directory} caseStudies={caseStudies} />
+        </section>
+      </div>
+
+      <div className={styles.preview} aria-label="Preview">
+        {preview ? <Profile cv={preview} basePath={directory ? `/${directory}` : ""} /> : null}
+      </div>
+    </div>
+  );
+}
+
+export default Editor;
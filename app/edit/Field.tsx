@@ -0,0 +1,95 @@
+"use client"
+
+import { useId, useState } from "react";
+import { uploadMedia } from "./actions";
+import type { Attachment, Localized } from "../cv";
+import { defaultLocale } from "../i18n";
+import styles from "./Editor.module.css";
+
+// Text as it's written in the default language, whether or not it's been
+// translated in the JSON.
+export function defaultText(value: Localized | null | undefined): string {
+  return typeof value === "object" && value !== null ? value[defaultLocale] ?? "" : value ?? "";
+}
+
+type FieldProps<T extends Localized> = {
+  label: string,
+  value: T | null | undefined,
+  onChange: (value: T) => void,
+  multiline?: boolean,
+  placeholder?: string,
+};
+
+// Text that's been translated in the JSON is edited in the default language,
+// and its translations are kept as they are. A value stays a string or stays
+// translations, so it's handed back as the type it came in as.
+function Field<T extends Localized>({ label, value, onChange, multiline, placeholder }: FieldProps<T>) {
+  const id = useId();
+  const translations = typeof value === "object" && value !== null ? value as Record<string, string> : null;
+  const change = (next: string) => onChange((translations ? { ...translations, [defaultLocale]: next } : next) as T);
+  const others = translations ? Object.keys(translations).filter((locale) => locale !== defaultLocale) : [];
+  return (
+    <div className={styles.field}>
+      <label htmlFor={id}>
+        {label}
+        {others.length > 0 ? <span className={styles.hint}> · also in {others.join(", ")}</span> : null}
+      </label>
+      {multiline ?
+        <textarea id={id} value={defaultText(value)} rows={4} placeholder={placeholder} onChange={(event) => change(event.target.value)} /> :
+        <input id={id} value={defaultText(value)} placeholder={placeholder} onChange={(event) => change(event.target.value)} />}
+    </div>
+  );
+}
+
+type UploadButtonProps = {
+  directory?: string,
+  label?: string,
+  accept?: string,
+  onUpload: (attachment: Attachment) => void,
+  onError: (error: string) => void,
+};
+
+// Sends a file to the uploadMedia action, which saves it into the profile's
+// media and measures it.
+export const UploadButton: React.FC<UploadButtonProps> = ({
+  directory,
+  label = "Upload",
+  accept = "image/*,video/*",
+  onUpload,
+  onError,
+}) => {
+  const [uploading, setUploading] = useState(false);
+  return (
+    <label className={styles.button} aria-disabled={uploading}>
+      {uploading ? "Uploading…" : label}
+      <input
+        type="file"
+        accept={accept}
+        hidden
+        disabled={uploading}
+        onChange={async (event) => {
+          const file = event.target.files?.[0];
+          event.target.value = "";
+          if (!file) { return }
+          const form = new FormData();
+          form.append("file", file);
+          setUploading(true);
+          try {
+            const result = await uploadMedia(directory, form);
+            if (result.ok) {
+              onUpload(result.value);
+            } else {
+              onError(result.error);
+            }
+          } catch (error) {
+            onError((error as Error).message);
+          } finally {
+            setUploading(false);
+          }
+        }}
+      />
+    </label>
+  );
+}
+
+export default Field;
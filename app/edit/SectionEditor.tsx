@@ -0,0 +1,316 @@
+"use client"
+
+import { useState } from "react";
+import { Reorder, useDragControls } from "framer-motion";
+import Field, { defaultText, UploadButton } from "./Field";
+import {
+  sectionKeys,
+  type Attachment,
+  type Contact,
+  type CV,
+  type Experience,
+  type ExperienceKey,
+} from "../cv";
+import styles from "./Editor.module.css";
+
+// Ids in profileData.json are 20 random letters and digits.
+function newId() {
+  const alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+  return Array.from(crypto.getRandomValues(new Uint8Array(20)), (byte) => alphabet[byte % alphabet.length]).join("");
+}
+
+function move<T>(list: Array<T>, index: number, offset: number): Array<T> {
+  const to = index + offset;
+  if (to < 0 || to >= list.length) { return list }
+  const next = [...list];
+  next.splice(to, 0, ...next.splice(index, 1));
+  return next;
+}
+
+// Reorders a list by its ids, as Reorder.Group reports them.
+function reorder<T extends { id: string }>(list: Array<T>, ids: Array<string>): Array<T> {
+  return ids.map((id) => list.find((item) => item.id === id)!);
+}
+
+type RowProps = {
+  value: string,
+  label: string,
+  onMove: (offset: number) => void,
+  children: React.ReactNode,
+};
+
+// A row that's dragged by its handle, so the fields inside stay usable. The
+// arrow keys move it too while the handle has focus.
+const Row: React.FC<RowProps> = ({ value, label, onMove, children }) => {
+  const controls = useDragControls();
+  return (
+    <Reorder.Item value={value} dragListener={false} dragControls={controls} className={styles.row}>
+      <button
+        type="button"
+        className={styles.handle}
+        aria-label={`Move ${label}`}
+        onPointerDown={(event) => controls.start(event)}
+        onKeyDown={(event) => {
+          if (event.key === "ArrowUp" || event.key === "ArrowDown") {
+            event.preventDefault();
+            onMove(event.key === "ArrowUp" ? -1 : 1);
+          }
+        }}>
+        ⠿
+      </button>
+      <div className={styles.rowContent}>{children}</div>
+    </Reorder.Item>
+  );
+}
+
+type AttachmentListProps = {
+  attachments: Array<Attachment>,
+  directory?: string,
+  onChange: (attachments: Array<Attachment>) => void,
+  onError: (error: string) => void,
+};
+const AttachmentList: React.FC<AttachmentListProps> = ({ attachments, directory, onChange, onError }) => {
+  const update = (index: number, changes: Partial<Attachment>) => {
+    onChange(attachments.map((attachment, i) => i === index ? { ...attachment, ...changes } : attachment));
+  };
+  return (
+    <div className={styles.attachments}>
+      {attachments.map((attachment, index) => (
+        <div key={`${attachment.url}-${index}`} className={styles.attachment}>
+          {attachment.type === "video" ?
+            <video src={attachment.url} poster={attachment.poster} muted /> :
+            <img src={attachment.url} alt="" />}
+          <div className={styles.attachmentFields}>
+            <div className={styles.hint}>{attachment.url} · {attachment.width}×{attachment.height}</div>
+            <Field label="Alt text" value={attachment.alt} onChange={(alt) => update(index, { alt })} />
+            <Field label="Caption" value={attachment.caption} onChange={(caption) => update(index, { caption })} />
+            <div className={styles.actions}>
+              <button type="button" className={styles.button} onClick={() => onChange(move(attachments, index, -1))}>Earlier</button>
+              <button type="button" className={styles.button} onClick={() => onChange(move(attachments, index, 1))}>Later</button>
+              <button type="button" className={styles.button} onClick={() => onChange(attachments.filter((_, i) => i !== index))}>Remove</button>
+            </div>
+          </div>
+        </div>
+      ))}
+      <div className={styles.actions}>
+        <UploadButton
+          directory={directory}
+          label="Add media"
+          onUpload={(attachment) => onChange([...attachments, attachment])}
+          onError={onError}
+        />
+      </div>
+    </div>
+  );
+}
+
+// The fields an item is shown with, beyond the ones every item has. These
+// follow itemTitle in sections.ts.
+const extraFields: Partial<Record<ExperienceKey, Array<[keyof Experience, string]>>> = {
+  education: [["degree", "Degree"], ["school", "School"]],
+  talks: [["venue", "Venue"]],
+  writing: [["publication", "Publication"]],
+};
+
+type ItemEditorProps = {
+  sectionKey: ExperienceKey,
+  item: Experience,
+  directory?: string,
+  onChange: (item: Experience) => void,
+  onRemove: () => void,
+  onError: (error: string) => void,
+};
+const ItemEditor: React.FC<ItemEditorProps> = ({ sectionKey, item, directory, onChange, onRemove, onError }) => {
+  const [open, setOpen] = useState(false);
+  const set = (key: keyof Experience) => (value: string) => onChange({ ...item, [key]: value });
+  return (
+    <>
+      <button type="button" className={styles.summary} aria-expanded={open} onClick={() => setOpen(!open)}>
+        <span>{defaultText(item.heading) || "Untitled"}</span>
+        <span className={styles.hint}>{item.year}</span>
+      </button>
+      {open ? (
+        <div className={styles.fields}>
+          <Field label="Year" value={item.year} onChange={set("year")} placeholder="2024 — Now" />
+          <Field label="Heading" value={item.heading} onChange={set("heading")} />
+          <Field label="Title" value={item.title} onChange={set("title")} />
+          <Field label="Company" value={item.company} onChange={set("company")} />
+          {(extraFields[sectionKey] ?? []).map(([key, label]) => (
+            <Field key={key} label={label} value={item[key] as string | undefined} onChange={set(key)} />
+          ))}
+          <Field label="Location" value={item.location} onChange={set("location")} />
+          <Field label="URL" value={item.url} onChange={set("url")} />
+          <Field label="Description" value={item.description} onChange={set("description")} multiline />
+          <AttachmentList
+            attachments={item.attachments}
+            directory={directory}
+            onChange={(attachments) => onChange({ ...item, attachments })}
+            onError={onError}
+          />
+          <div className={styles.actions}>
+            <button
+              type="button"
+              className={styles.button}
+              onClick={() => {
+                if (window.confirm(`Remove ${defaultText(item.heading) || "this item"}?`)) { onRemove() }
+              }}>
+              Remove item
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </>
+  );
+}
+
+type ItemListProps = {
+  sectionKey: ExperienceKey,
+  items: Array<Experience>,
+  directory?: string,
+  onChange: (items: Array<Experience>) => void,
+  onError: (error: string) => void,
+};
+const ItemList: React.FC<ItemListProps> = ({ sectionKey, items, directory, onChange, onError }) => {
+  return (
+    <>
+      <Reorder.Group axis="y" values={items.map((item) => item.id)} onReorder={(ids) => onChange(reorder(items, ids))} className={styles.rows}>
+        {items.map((item, index) => (
+          <Row key={item.id} value={item.id} label={defaultText(item.heading)} onMove={(offset) => onChange(move(items, index, offset))}>
+            <ItemEditor
+              sectionKey={sectionKey}
+              item={item}
+              directory={directory}
+              onChange={(changed) => onChange(items.map((other) => other.id === item.id ? changed : other))}
+              onRemove={() => onChange(items.filter((other) => other.id !== item.id))}
+              onError={onError}
+            />
+          </Row>
+        ))}
+      </Reorder.Group>
+      <div className={styles.actions}>
+        <button
+          type="button"
+          className={styles.button}
+          onClick={() => onChange([...items, {
+            id: newId(),
+            year: String(new Date().getFullYear()),
+            heading: "",
+            url: "",
+            collaborators: [],
+            description: "",
+            attachments: [],
+            type: sectionKey,
+          }])}>
+          Add item
+        </button>
+      </div>
+    </>
+  );
+}
+
+type ContactListProps = {
+  contacts: Array<Contact>,
+  onChange: (contacts: Array<Contact>) => void,
+};
+const ContactList: React.FC<ContactListProps> = ({ contacts, onChange }) => {
+  const update = (id: string, changes: Partial<Contact>) => {
+    onChange(contacts.map((contact) => contact.id === id ? { ...contact, ...changes } : contact));
+  };
+  return (
+    <>
+      <Reorder.Group axis="y" values={contacts.map((contact) => contact.id)} onReorder={(ids) => onChange(reorder(contacts, ids))} className={styles.rows}>
+        {contacts.map((contact, index) => (
+          <Row key={contact.id} value={contact.id} label={contact.platform} onMove={(offset) => onChange(move(contacts, index, offset))}>
+            <div className={styles.fields}>
+              <Field label="Platform" value={contact.platform} onChange={(platform) => update(contact.id, { platform })} />
+              <Field label="Handle" value={contact.handle} onChange={(handle) => update(contact.id, { handle })} />
+              <Field label="URL" value={contact.url} onChange={(url) => update(contact.id, { url })} />
+              <div className={styles.actions}>
+                <button type="button" className={styles.button} onClick={() => onChange(contacts.filter((other) => other.id !== contact.id))}>
+                  Remove contact
+                </button>
+              </div>
+            </div>
+          </Row>
+        ))}
+      </Reorder.Group>
+      <div className={styles.actions}>
+        <button
+          type="button"
+          className={styles.button}
+          onClick={() => onChange([...contacts, { id: newId(), platform: "", handle: "", url: "" }])}>
+          Add contact
+        </button>
+      </div>
+    </>
+  );
+}
+
+type SectionEditorProps = {
+  draft: CV,
+  directory?: string,
+  onChange: (draft: CV) => void,
+  onError: (error: string) => void,
+};
+
+// The sections in `general.sectionOrder`, dragged into order, each opening to
+// its items. Sections left out of the order keep their items but aren't shown.
+const SectionEditor: React.FC<SectionEditorProps> = ({ draft, directory, onChange, onError }) => {
+  const [openSection, setOpenSection] = useState<string | null>(null);
+  const order = draft.general.sectionOrder;
+  const setOrder = (sectionOrder: Array<string>) => onChange({ ...draft, general: { ...draft.general, sectionOrder } });
+  const hidden = Object.keys(sectionKeys).filter((name) => !order.includes(name));
+
+  return (
+    <>
+      <Reorder.Group axis="y" values={order} onReorder={setOrder} className={styles.rows}>
+        {order.map((name, index) => {
+          const key = sectionKeys[name];
+          if (!key) { return null }
+          return (
+            <Row key={name} value={name} label={name} onMove={(offset) => setOrder(move(order, index, offset))}>
+              <div className={styles.sectionHeader}>
+                <button
+                  type="button"
+                  className={styles.summary}
+                  aria-expanded={openSection === name}
+                  onClick={() => setOpenSection(openSection === name ? null : name)}>
+                  <span>{name}</span>
+                  <span className={styles.hint}>{draft[key].length}</span>
+                </button>
+                <button type="button" className={styles.button} onClick={() => setOrder(order.filter((other) => other !== name))}>
+                  Hide
+                </button>
+              </div>
+              {openSection === name ? (
+                key === "contact" ?
+                  <ContactList contacts={draft.contact} onChange={(contact) => onChange({ ...draft, contact })} /> :
+                  <ItemList
+                    sectionKey={key}
+                    items={draft[key]}
+                    directory={directory}
+                    onChange={(items) => onChange({ ...draft, [key]: items })}
+                    onError={onError}
+                  />
+              ) : null}
+            </Row>
+          );
+        })}
+      </Reorder.Group>
+      {hidden.length > 0 ? (
+        <div className={styles.actions}>
+          <select
+            className={styles.button}
+            value=""
+            aria-label="Add a section"
+            onChange={(event) => setOrder([...order, event.target.value])}>
+            <option value="" disabled>Add section…</option>
+            {hidden.map((name) => <option key={name} value={name}>{name}</option>)}
+          </select>
+        </div>
+      ) : null}
+    </>
+  );
+}
+
+export default SectionEditor;
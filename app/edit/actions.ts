@@ -0,0 +1,92 @@
+"use server"
+
+import { revalidatePath } from "next/cache";
+import {
+  addMedia,
+  buildProfile,
+  getProfileDirectories,
+  parseCaseStudy,
+  writeCaseStudyFile,
+  writeProfileFile,
+} from "../content";
+import type { Attachment, CV } from "../cv";
+import { CVValidationError } from "../validateCV";
+
+// What an action hands back to the editor: the result, or the message of the
+// validation error that stopped it.
+export type EditResult<T> =
+  | { ok: true, value: T }
+  | { ok: false, error: string };
+
+const mediaExtensions = /\.(png|jpe?g|webp|avif|gif|mp4|webm|mov)$/i;
+
+// Actions are reachable by anyone who can reach the server, so every one of
+// them checks for itself that this is the dev server.
+async function editable(directory: string | undefined) {
+  if (process.env.NODE_ENV !== "development") {
+    throw new Error("Content can only be edited with the dev server");
+  }
+  if (!(await getProfileDirectories()).includes(directory)) {
+    throw new Error(`There's no profile in ${directory}`);
+  }
+}
+
+async function attempt<T>(action: () => Promise<T>): Promise<EditResult<T>> {
+  try {
+    return { ok: true, value: await action() };
+  } catch (error) {
+    if (error instanceof CVValidationError) {
+      return { ok: false, error: error.message };
+    }
+    throw error;
+  }
+}
+
+// Validates a draft and returns the CV the profile would render from it.
+export async function previewProfile(directory: string | undefined, draft: CV): Promise<EditResult<CV>> {
+  await editable(directory);
+  return attempt(() => buildProfile(JSON.stringify(draft), directory));
+}
+
+// Writes the draft to profileData.json, but only once it validates.
+export async function saveProfile(directory: string | undefined, draft: CV): Promise<EditResult<CV>> {
+  await editable(directory);
+  const json = JSON.stringify(draft, null, 2) + "\n";
+  const result = await attempt(() => buildProfile(json, directory));
+  if (result.ok) {
+    await writeProfileFile(json, directory);
+    revalidatePath("/", "layout");
+  }
+  return result;
+}
+
+export async function saveCaseStudy(
+  directory: string | undefined,
+  slug: string,
+  markdown: string,
+): Promise<EditResult<null>> {
+  await editable(directory);
+  const result = await attempt(() => parseCaseStudy(slug, markdown, directory));
+  if (!result.ok) {
+    return result;
+  }
+  await writeCaseStudyFile(slug, markdown, directory);
+  revalidatePath("/", "layout");
+  return { ok: true, value: null };
+}
+
+// Saves an uploaded image or video and returns it as an attachment, with its
+// dimensions measured. Videos are measured when the dev server starts, so a
+// new one can only be used after a restart.
+export async function uploadMedia(directory: string | undefined, form: FormData): Promise<EditResult<Attachment>> {
+  await editable(directory);
+  const file = form.get("file");
+  if (!(file instanceof File) || !mediaExtensions.test(file.name)) {
+    return { ok: false, error: "Upload a PNG, JPEG, WebP, AVIF or GIF image, or an MP4, WebM or MOV video" };
+  }
+  const attachment = await addMedia(file.name, Buffer.from(await file.arrayBuffer()), directory);
+  if (!attachment) {
+    return { ok: false, error: `Saved ${file.name}; restart the dev server to measure it (which needs ffmpeg) before using it` };
+  }
+  return { ok: true, value: attachment };
+}
@@ -0,0 +1,6 @@
+import Document from "../Document";
+
+// The editor isn't translated.
+export default function EditLayout({ children }: { children: React.ReactNode }) {
+  return <Document lang="en">{children}</Document>;
+}
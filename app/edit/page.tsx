@@ -0,0 +1,70 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import Editor from "./Editor";
+import styles from "./Editor.module.css";
+import type { CV } from "../cv";
+import { CVValidationError } from "../validateCV";
+import { buildProfile, getProfileDirectories, readCaseStudyFiles, readProfileFile } from "../content";
+
+export const metadata: Metadata = {
+  title: "Edit",
+  robots: { index: false },
+};
+
+type EditPageProps = {
+  searchParams: Promise<{ profile?: string }>,
+};
+
+// Local authoring: only the dev server serves the editor, since it writes to
+// public/content.
+export default async function EditPage({ searchParams }: EditPageProps) {
+  if (process.env.NODE_ENV !== "development") {
+    notFound();
+  }
+
+  const directories = await getProfileDirectories();
+  const requested = (await searchParams).profile;
+  const directory = directories.find((candidate) => candidate === requested) ?? directories[0];
+  const json = directories.length > 0 ? await readProfileFile(directory) : null;
+  if (json === null) {
+    return <p className={styles.message}>There&apos;s no profileData.json to edit in public/content.</p>;
+  }
+
+  let draft: CV;
+  try {
+    draft = JSON.parse(json);
+  } catch (error) {
+    return <p className={styles.message}>profileData.json isn&apos;t valid JSON: {(error as Error).message}</p>;
+  }
+
+  let preview: CV | null = null;
+  let error: string | null = null;
+  try {
+    preview = await buildProfile(json, directory);
+  } catch (caught) {
+    if (!(caught instanceof CVValidationError)) { throw caught }
+    error = caught.message;
+  }
+
+  const profiles = await Promise.all(directories.map(async (candidate) => {
+    let name = candidate ?? "profileData.json";
+    try {
+      name = JSON.parse(await readProfileFile(candidate) ?? "{}").general?.displayName || name;
+    } catch {
+      // Listed by its directory until it parses.
+    }
+    return { directory: candidate, name };
+  }));
+
+  return (
+    <Editor
+      key={directory ?? ""}
+      directory={directory}
+      profiles={profiles}
+      initialDraft={draft}
+      initialPreview={preview}
+      initialError={error}
+      caseStudies={await readCaseStudyFiles(directory)}
+    />
+  );
+}
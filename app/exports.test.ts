@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import type { CV, Experience } from "./cv";
+import { toJSONResume, toVCard } from "./exports";
+
+const siteURL = "https://ada.example.com/";
+
+function item(fields: Partial<Experience> & Pick<Experience, "id" | "year" | "heading">): Experience {
+  return { collaborators: [], attachments: [], ...fields };
+}
+
+const cv: CV = {
+  general: {
+    profilePhoto: "/content/media/photo.jpg",
+    username: "ada",
+    displayName: "Ada King Lovelace",
+    profession: "Mathematician",
+    byline: "Writes programs for engines that don't exist yet",
+    location: "London, England",
+    websiteURL: "https://ada.example.org",
+    about: "Notes, mostly.",
+    sectionOrder: [],
+  },
+  projects: [item({ id: "engine", year: "1842 — 1843", heading: "Analytical Engine notes" })],
+  sideProjects: [],
+  exhibitions: [],
+  talks: [item({ id: "talk", year: "1840", heading: "On Bernoulli numbers" })],
+  writing: [item({ id: "sketch", year: "1843", heading: "Sketch of the Analytical Engine", publication: "Taylor's Scientific Memoirs" })],
+  awards: [],
+  features: [],
+  workExperience: [
+    item({ id: "babbage", year: "1842 — Now", heading: "Collaborator", title: "Translator", company: "Babbage & Co", location: "London" }),
+    item({ id: "tutor", year: "Ongoing", heading: "Tutoring" }),
+  ],
+  volunteering: [],
+  education: [item({ id: "morgan", year: "1840 — 1841", heading: "Mathematics", school: "Tutored by De Morgan" })],
+  certifications: [],
+  contact: [
+    { id: "email", platform: "Email", handle: "ada@example.com", url: "mailto:ada@example.com" },
+    { id: "phone", platform: "Phone", handle: "+44 20 7946 0000", url: "tel:+442079460000" },
+    { id: "github", platform: "GitHub", handle: "ada", url: "https://github.com/ada" },
+  ],
+  collaborators: [],
+};
+
+describe("toJSONResume", () => {
+  const resume = toJSONResume(cv, siteURL);
+
+  it("maps the basics, with contacts split by kind", () => {
+    expect(resume.basics).toMatchObject({
+      name: "Ada King Lovelace",
+      label: "Mathematician",
+      image: "https://ada.example.com/content/media/photo.jpg",
+      email: "ada@example.com",
+      phone: "+442079460000",
+      location: { city: "London", region: "England" },
+      profiles: [{ network: "GitHub", username: "ada", url: "https://github.com/ada" }],
+    });
+  });
+
+  it("turns year ranges into dates, leaving ongoing work without an end", () => {
+    expect(resume.work[0]).toMatchObject({ name: "Babbage & Co", position: "Translator", startDate: "1842" });
+    expect(resume.work[0].endDate).toBeUndefined();
+    expect(resume.work[1].startDate).toBeUndefined();
+    expect(resume.education[0]).toMatchObject({ institution: "Tutored by De Morgan", startDate: "1840", endDate: "1841" });
+  });
+
+  it("files talks and writing under projects and publications", () => {
+    expect(resume.projects.map((project) => [project.name, project.type])).toEqual([
+      ["Analytical Engine notes", undefined],
+      ["On Bernoulli numbers", "talk"],
+    ]);
+    expect(resume.publications[0]).toMatchObject({ publisher: "Taylor's Scientific Memoirs", releaseDate: "1843" });
+    expect(resume.meta.canonical).toBe("https://ada.example.com/resume.json");
+  });
+});
+
+describe("toVCard", () => {
+  const card = toVCard(cv, siteURL);
+  const lines = card.replace(/\r\n /g, "").split("\r\n");
+
+  it("writes a vCard 3.0 with CRLF line endings", () => {
+    expect(lines[0]).toBe("BEGIN:VCARD");
+    expect(lines[1]).toBe("VERSION:3.0");
+    expect(card.endsWith("END:VCARD\r\n")).toBe(true);
+  });
+
+  it("splits the name and escapes text values", () => {
+    expect(lines).toContain("FN:Ada King Lovelace");
+    expect(lines).toContain("N:Lovelace;Ada King;;;");
+    expect(lines).toContain("ADR;TYPE=WORK:;;;London;England;;");
+    expect(toVCard({ ...cv, general: { ...cv.general, profession: "Poet, of sorts; mostly" } }, siteURL))
+      .toContain("TITLE:Poet\\, of sorts\\; mostly");
+  });
+
+  it("lists contacts by kind", () => {
+    expect(lines).toContain("EMAIL;TYPE=INTERNET:ada@example.com");
+    expect(lines).toContain("TEL:+442079460000");
+    expect(lines).toContain("URL;TYPE=WORK:https://ada.example.org");
+    expect(lines).toContain("X-SOCIALPROFILE;TYPE=github:https://github.com/ada");
+  });
+
+  it("folds lines longer than 75 octets", () => {
+    const long = toVCard({ ...cv, general: { ...cv.general, profession: "é".repeat(60) } }, siteURL);
+    for (const line of long.split("\r\n")) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    }
+    expect(long.replace(/\r\n /g, "")).toContain(`TITLE:${"é".repeat(60)}`);
+  });
+});
@@ -0,0 +1,236 @@
+import type { Contact, CV, Experience } from "./cv";
+
+// The CV in formats other tools understand: JSON Resume (jsonresume.org),
+// vCard 3.0 and schema.org JSON-LD. Relative media URLs are made absolute
+// against the site's own URL.
+
+type DateRange = {
+  startDate?: string,
+  endDate?: string,
+};
+
+// "2016 — 2020", "2024 — Now" and "2023" all become ISO years; anything
+// without a year (like "Ongoing") has no dates.
+function dateRange(year: string): DateRange {
+  const years = year.match(/\d{4}/g) || [];
+  if (years.length === 0) {
+    return {};
+  }
+  const ongoing = years.length === 1 && /now|present|ongoing|current/i.test(year);
+  return {
+    startDate: years[0],
+    endDate: ongoing ? undefined : years[years.length - 1],
+  };
+}
+
+type Place = {
+  city?: string,
+  region?: string,
+};
+
+// Splits "San Francisco, CA" into its city and the rest.
+function place(location: string | undefined): Place {
+  if (!location) {
+    return {};
+  }
+  const [city, ...rest] = location.split(",").map((part) => part.trim());
+  return { city, region: rest.join(", ") || undefined };
+}
+
+function emails(contacts: Array<Contact>) {
+  return contacts
+    .filter((contact) => contact.url.startsWith("mailto:"))
+    .map((contact) => contact.url.slice("mailto:".length));
+}
+
+function phones(contacts: Array<Contact>) {
+  return contacts
+    .filter((contact) => contact.url.startsWith("tel:"))
+    .map((contact) => contact.url.slice("tel:".length));
+}
+
+function profiles(contacts: Array<Contact>) {
+  return contacts.filter((contact) => /^https?:/.test(contact.url));
+}
+
+function url(item: Experience) {
+  return item.url || undefined;
+}
+
+export function toJSONResume(cv: CV, siteURL: string) {
+  const { general } = cv;
+  const location = place(general.location);
+  const projects = (items: Array<Experience>, type?: string) => items.map((item) => ({
+    name: item.heading,
+    description: item.description,
+    url: url(item),
+    type,
+    entity: item.company,
+    ...dateRange(item.year),
+  }));
+  const publications = (items: Array<Experience>) => items.map((item) => ({
+    name: item.heading,
+    publisher: item.publication || item.company,
+    releaseDate: dateRange(item.year).startDate,
+    url: url(item),
+    summary: item.description,
+  }));
+
+  return {
+    $schema: "https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json",
+    basics: {
+      name: general.displayName,
+      label: general.profession || general.byline,
+      image: new URL(general.profilePhoto, siteURL).href,
+      email: emails(cv.contact)[0],
+      phone: phones(cv.contact)[0],
+      url: siteURL,
+      summary: general.about,
+      location: general.location ? location : undefined,
+      profiles: profiles(cv.contact).map((contact) => ({
+        network: contact.platform,
+        username: contact.handle,
+        url: contact.url,
+      })),
+    },
+    work: cv.workExperience.map((item) => ({
+      name: item.company || item.heading,
+      position: item.title || item.heading,
+      location: item.location,
+      url: url(item),
+      summary: item.description,
+      ...dateRange(item.year),
+    })),
+    volunteer: cv.volunteering.map((item) => ({
+      organization: item.company || item.heading,
+      position: item.title || item.heading,
+      url: url(item),
+      summary: item.description,
+      ...dateRange(item.year),
+    })),
+    education: cv.education.map((item) => ({
+      institution: item.school || item.company || item.heading,
+      studyType: item.degree,
+      area: item.title,
+      url: url(item),
+      ...dateRange(item.year),
+    })),
+    awards: cv.awards.map((item) => ({
+      title: item.heading,
+      awarder: item.company,
+      date: dateRange(item.year).startDate,
+      summary: item.description,
+    })),
+    certificates: cv.certifications.map((item) => ({
+      name: item.heading,
+      issuer: item.company,
+      date: dateRange(item.year).startDate,
+      url: url(item),
+    })),
+    publications: [...publications(cv.writing), ...publications(cv.features)],
+    projects: [
+      ...projects(cv.projects),
+      ...projects(cv.sideProjects),
+      ...projects(cv.exhibitions, "exhibition"),
+      ...projects(cv.talks, "talk"),
+    ],
+    meta: {
+      canonical: new URL("/resume.json", siteURL).href,
+    },
+  };
+}
+
+// Text values escape backslashes, commas, semicolons and newlines (RFC 2426).
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/([,;])/g, "\\$1")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 octets continue on the next line after a space.
+function fold(line: string) {
+  const folded: Array<string> = [];
+  let rest = line;
+  while (Buffer.byteLength(rest) > 75) {
+    let end = 75;
+    while (Buffer.byteLength(rest.slice(0, end)) > 75) { end-- }
+    folded.push(rest.slice(0, end));
+    rest = " " + rest.slice(end);
+  }
+  folded.push(rest);
+  return folded.join("\r\n");
+}
+
+export function toVCard(cv: CV, siteURL: string) {
+  const { general } = cv;
+  const names = general.displayName.trim().split(/\s+/);
+  const family = names.length > 1 ? names.pop()! : "";
+  const location = place(general.location);
+
+  const lines = [
+    "BEGIN:VCARD",
+    "VERSION:3.0",
+    `FN:${escapeText(general.displayName)}`,
+    `N:${escapeText(family)};${escapeText(names.join(" "))};;;`,
+  ];
+  if (general.profession || general.byline) {
+    lines.push(`TITLE:${escapeText((general.profession || general.byline)!)}`);
+  }
+  if (general.location) {
+    lines.push(`ADR;TYPE=WORK:;;;${escapeText(location.city || "")};${escapeText(location.region || "")};;`);
+  }
+  lines.push(`PHOTO;VALUE=URI:${new URL(general.profilePhoto, siteURL).href}`);
+  for (const email of emails(cv.contact)) {
+    lines.push(`EMAIL;TYPE=INTERNET:${email}`);
+  }
+  for (const phone of phones(cv.contact)) {
+    lines.push(`TEL:${phone}`);
+  }
+  lines.push(`URL:${siteURL}`);
+  if (general.websiteURL) {
+    lines.push(`URL;TYPE=WORK:${general.websiteURL}`);
+  }
+  for (const contact of profiles(cv.contact)) {
+    lines.push(`X-SOCIALPROFILE;TYPE=${escapeText(contact.platform.toLowerCase())}:${contact.url}`);
+  }
+  lines.push("END:VCARD");
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
+
+// A ProfilePage whose main entity is the person, for search engines.
+export function toStructuredData(cv: CV, siteURL: string) {
+  const { general } = cv;
+  const location = place(general.location);
+  const current = cv.workExperience.find((item) => /now|present|current/i.test(item.year));
+
+  return {
+    "@context": "https://schema.org",
+    "@type": "ProfilePage",
+    url: siteURL,
+    mainEntity: {
+      "@type": "Person",
+      name: general.displayName,
+      alternateName: general.username,
+      description: general.byline,
+      jobTitle: general.profession,
+      image: new URL(general.profilePhoto, siteURL).href,
+      url: siteURL,
+      email: emails(cv.contact)[0],
+      address: general.location ? {
+        "@type": "PostalAddress",
+        addressLocality: location.city,
+        addressRegion: location.region,
+      } : undefined,
+      worksFor: current && current.company ? {
+        "@type": "Organization",
+        name: current.company,
+        url: url(current),
+      } : undefined,
+      sameAs: [
+        ...(general.websiteURL ? [general.websiteURL] : []),
+        ...profiles(cv.contact).map((contact) => contact.url),
+      ],
+    },
+  };
+}
@@ -0,0 +1,58 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+
+// LOCALES is read when i18n.ts is first imported.
+let i18n: typeof import("./i18n");
+
+beforeAll(async () => {
+  vi.stubEnv("LOCALES", "en,fr,pt-BR");
+  vi.resetModules();
+  i18n = await import("./i18n");
+  vi.unstubAllEnvs();
+});
+
+describe("preferredLocale", () => {
+  it("picks the best match by quality", () => {
+    expect(i18n.preferredLocale("de;q=0.9, fr;q=0.8, en;q=0.7")).toBe("fr");
+    expect(i18n.preferredLocale("en;q=0.5, fr")).toBe("fr");
+  });
+
+  it("falls back from a region to its language, and the other way", () => {
+    expect(i18n.preferredLocale("fr-CH")).toBe("fr");
+    expect(i18n.preferredLocale("pt")).toBe("pt-BR");
+    expect(i18n.preferredLocale("PT-br")).toBe("pt-BR");
+  });
+
+  it("uses the default language when nothing matches", () => {
+    expect(i18n.preferredLocale(null)).toBe("en");
+    expect(i18n.preferredLocale("de, *")).toBe("en");
+    expect(i18n.preferredLocale("fr;q=0")).toBe("en");
+  });
+});
+
+describe("localePath and splitLocalePath", () => {
+  it("serves the default language without a prefix", () => {
+    expect(i18n.localePath("en", "")).toBe("/");
+    expect(i18n.localePath("en", "/ada")).toBe("/ada");
+    expect(i18n.localePath("fr", "")).toBe("/fr");
+    expect(i18n.localePath("fr", "/ada")).toBe("/fr/ada");
+  });
+
+  it("splits a path into its language and the rest", () => {
+    expect(i18n.splitLocalePath("/")).toEqual({ locale: "en", path: "" });
+    expect(i18n.splitLocalePath("/ada")).toEqual({ locale: "en", path: "/ada" });
+    expect(i18n.splitLocalePath("/fr")).toEqual({ locale: "fr", path: "" });
+    expect(i18n.splitLocalePath("/fr/ada")).toEqual({ locale: "fr", path: "/ada" });
+  });
+
+  it("only treats the configured languages as prefixes", () => {
+    expect(i18n.splitLocalePath("/de/ada")).toEqual({ locale: "en", path: "/de/ada" });
+    expect(i18n.isLocale("de")).toBe(false);
+  });
+});
+
+describe("formatMessage", () => {
+  it("fills in placeholders and leaves unknown ones", () => {
+    expect(i18n.formatMessage("Back to {name}", { name: "Ada" })).toBe("Back to Ada");
+    expect(i18n.formatMessage("{count} of {total}", { count: 1 })).toBe("1 of {total}");
+  });
+});
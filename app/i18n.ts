@@ -0,0 +1,75 @@
+// The languages the site is served in, set with LOCALES (e.g. "en,fr"). The
+// first is the default: it's what untranslated content is written in, and
+// it's served without a prefix, while /fr/... serves French. next.config.ts
+// inlines LOCALES at build time, so middleware.ts and the prerendered pages
+// always agree on it.
+export const locales: Array<string> = Intl.getCanonicalLocales(
+  (process.env.LOCALES || "en").split(",").map((locale) => locale.trim()).filter(Boolean),
+);
+
+export const defaultLocale = locales[0];
+
+// Remembers a language picked with the language switcher, so that it wins
+// over Accept-Language on later visits.
+export const localeCookie = "locale";
+
+// Marks the language switcher's links, so that middleware.ts only remembers a
+// language picked there and not any prefixed link that's followed.
+export const localeChoiceParam = "lang";
+
+export function isLocale(value: string | undefined): value is string {
+  return value !== undefined && locales.includes(value);
+}
+
+// What a language's paths start with: "" for the default language, and
+// "/fr" for French.
+export function localePrefix(locale: string): string {
+  return locale === defaultLocale ? "" : `/${locale}`;
+}
+
+// Where a path is served in a language: "/fr/alice" for /alice in French, and
+// /alice itself in the default language. `path` is "" for the home page.
+export function localePath(locale: string, path: string): string {
+  return (localePrefix(locale) + path) || "/";
+}
+
+// The language a path is in and the path without its prefix, the inverse of
+// localePath.
+export function splitLocalePath(pathname: string): { locale: string, path: string } {
+  const [, first] = pathname.split("/");
+  if (isLocale(first)) {
+    return { locale: first, path: pathname.slice(first.length + 1) };
+  }
+  return { locale: defaultLocale, path: pathname === "/" ? "" : pathname };
+}
+
+// The best of `locales` for an Accept-Language header, by quality. A region
+// falls back to its language, so fr-CH is served fr, and the default language
+// is used when nothing matches.
+export function preferredLocale(acceptLanguage: string | null): string {
+  const ranges = (acceptLanguage ?? "")
+    .split(",")
+    .map((part) => {
+      const [range, ...parameters] = part.trim().split(";");
+      const quality = parameters.find((parameter) => parameter.trim().startsWith("q="));
+      return { range: range.trim().toLowerCase(), quality: quality ? Number(quality.trim().slice(2)) : 1 };
+    })
+    .filter(({ range, quality }) => range && range !== "*" && quality > 0)
+    .sort((a, b) => b.quality - a.quality);
+
+  for (const { range } of ranges) {
+    const language = range.split("-")[0];
+    const match = locales.find((locale) => locale.toLowerCase() === range) ??
+      locales.find((locale) => locale.toLowerCase().split("-")[0] === language);
+    if (match) { return match }
+  }
+  return defaultLocale;
+}
+
+// Fills in a message's {placeholders}, as in "Back to {name}" (see
+// messages.ts). It's here rather than there so that client components can use
+// it without bundling every language's messages.
+export function formatMessage(message: string, values: Record<string, string | number>): string {
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    Object.hasOwn(values, name) ? String(values[name]) : placeholder);
+}
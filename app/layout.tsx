@@ -1,32 +1,20 @@
 import type { Metadata } from "next";
-import { Inter } from 'next/font/google'
-import { promises as fs } from 'fs';
+import { getSiteURL } from "./content";
 import "./globals.css";
 
-const inter = Inter({
-  subsets: ['latin'],
-  variable: '--font-inter',
-})
-
+// Each page describes its own profile; see metadata.ts.
 export async function generateMetadata(): Promise<Metadata> {
-  const file = await fs.readFile(process.cwd() + '/public/content/profileData.json', 'utf8');
-  const cv = JSON.parse(file);
   return {
-    title: cv.general.displayName,
-    description: cv.general.byline || '',
+    metadataBase: new URL(getSiteURL()),
   };
 }
 
+// The document itself is rendered by app/[locale]/layout.tsx, in the page's
+// language, and by the editor's layout; see Document.tsx.
 export default function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
-  return (
-    <html lang="en">
-      <body className={`${inter.variable} font-sans`}>
-        {children}
-      </body>
-    </html>
-  );
+  return children;
 }
@@ -0,0 +1,108 @@
+import type { Image, PhrasingContent, Root } from 'mdast';
+import type {} from 'mdast-util-directive';
+import { toString } from 'mdast-util-to-string';
+import GithubSlugger from 'github-slugger';
+import remarkDirective from 'remark-directive';
+import remarkGfm from 'remark-gfm';
+import remarkParse from 'remark-parse';
+import { unified, type Plugin } from 'unified';
+import { visit } from 'unist-util-visit';
+
+export type GalleryItem = {
+  url: string,
+  alt: string,
+};
+
+// Turns a `:::gallery` container of markdown images into a `<gallery>`
+// element that RichText renders as an Attachments strip:
+//
+//   :::gallery
+//   ![First screen](/content/media/a.png)
+//   ![Second screen](/content/media/b.png)
+//   :::
+//
+// Text directives we don't handle (e.g. "at 10:30" or "see :this[label]") are
+// put back as the text they were written as, so ordinary prose isn't
+// swallowed by the directive syntax.
+export const remarkGallery: Plugin<[], Root> = function () {
+  return (tree, file) => {
+    const source = String(file);
+    visit(tree, (node, index, parent) => {
+      if (node.type === 'containerDirective' && node.name === 'gallery') {
+        const items: Array<GalleryItem> = [];
+        visit(node, 'image', (image: Image) => {
+          items.push({ url: image.url, alt: image.alt || '' });
+        });
+        node.data = {
+          hName: 'gallery',
+          hProperties: { items: JSON.stringify(items) },
+        };
+        node.children = [];
+        return;
+      }
+
+      if (node.type === 'textDirective' && parent && index !== undefined) {
+        const start = node.position?.start.offset;
+        const end = node.position?.end.offset;
+        if (start !== undefined && end !== undefined) {
+          parent.children.splice(index, 1, { type: 'text', value: source.slice(start, end) });
+          return index + 1;
+        }
+        const text: PhrasingContent = { type: 'text', value: `:${node.name}` };
+        parent.children.splice(index, 1, text, ...node.children as Array<PhrasingContent>);
+        return index + 1;
+      }
+    });
+  };
+};
+
+// The remark plugins RichText renders with. Markdown read on the server is
+// parsed with the same ones, so it's the document RichText renders.
+export const remarkPlugins = [remarkGfm, remarkDirective, remarkGallery];
+
+const processor = unified().use(remarkParse).use(remarkGfm).use(remarkDirective).use(remarkGallery);
+
+// Site-relative image URLs referenced from markdown, so their dimensions can
+// be resolved on the server before rendering. Galleries' images are included,
+// so the tree is only parsed, not transformed.
+export function imageURLs(markdown: string): Array<string> {
+  const urls = new Set<string>();
+  visit(processor.parse(markdown), 'image', (image) => {
+    if (image.url.startsWith('/')) {
+      urls.add(image.url);
+    }
+  });
+  return Array.from(urls);
+}
+
+export type Heading = {
+  id: string,
+  text: string,
+  depth: number,
+};
+
+// The h2/h3 outline of a document, with the same ids rehype-slug assigns
+// when RichText renders it.
+export function headingOutline(markdown: string): Array<Heading> {
+  const slugger = new GithubSlugger();
+  const headings: Array<Heading> = [];
+  visit(processor.runSync(processor.parse(markdown), markdown), 'heading', (heading) => {
+    const text = toString(heading);
+    const id = slugger.slug(text);
+    if (heading.depth === 2 || heading.depth === 3) {
+      headings.push({ id, text, depth: heading.depth });
+    }
+  });
+  return headings;
+}
+
+const wordsPerMinute = 220;
+
+export function readingTime(markdown: string): number {
+  const words = markdown
+    .replace(/```[\s\S]*?```/g, '')
+    .split(/\s+/)
+    .filter((word) => /\w/.test(word))
+    .length;
+  return Math.max(1, Math.round(words / wordsPerMinute));
+}
@@ -0,0 +1,307 @@
+// The site's own words, as opposed to the content's, in each language there's
+// a translation for. Languages without one fall back to English. They're plain
+// strings, with {placeholders} filled in by formatMessage in i18n.ts, so that
+// a page's can be handed to client components (see MessagesProvider).
+
+import type { Attachment } from "./cv";
+import type { ThemePreference } from "./theme";
+
+export type Messages = {
+  about: string,
+  downloadResume: string,
+  resumeFileName: string,
+  resumeTitle: string,
+  readCaseStudy: string,
+  // Headings for the section names used in `general.sectionOrder`.
+  sections: Record<string, string>,
+  minutesRead: string,
+  role: string,
+  company: string,
+  year: string,
+  with: string,
+  previous: string,
+  next: string,
+  backTo: string,
+  contents: string,
+  tableOfContents: string,
+  caseStudyBy: string,
+  collaborators: string,
+  viewProfile: string,
+  justNow: string,
+  profiles: string,
+  backToProfiles: string,
+  notFound: string,
+  notFoundDescription: string,
+  language: string,
+  readingProgress: string,
+  theme: string,
+  themes: Record<ThemePreference, string>,
+  // The gallery, the lightbox and its videos. Positions count from 1.
+  viewMedia: Record<Attachment["type"], string>,
+  mediaPosition: Record<Attachment["type"], string>,
+  mediaViewer: string,
+  close: string,
+  previousMedia: string,
+  nextMedia: string,
+  play: string,
+  pause: string,
+  seek: string,
+  mute: string,
+  unmute: string,
+  timeOf: string,
+};
+
+const en: Messages = {
+  about: "About",
+  downloadResume: "Download résumé",
+  resumeFileName: "{name} résumé.pdf",
+  resumeTitle: "{name} — Résumé",
+  readCaseStudy: "Read case study",
+  sections: {
+    "Contact": "Contact",
+    "Side Projects": "Side Projects",
+    "Projects": "Projects",
+    "Work Experience": "Work Experience",
+    "Exhibitions": "Exhibitions",
+    "Speaking": "Speaking",
+    "Writing": "Writing",
+    "Awards": "Awards",
+    "Features": "Features",
+    "Volunteering": "Volunteering",
+    "Education": "Education",
+    "Certifications": "Certifications",
+  },
+  minutesRead: "{minutes} min read",
+  role: "Role",
+  company: "Company",
+  year: "Year",
+  with: "With",
+  previous: "Previous",
+  next: "Next",
+  backTo: "Back to {name}",
+  contents: "Contents",
+  tableOfContents: "Table of contents",
+  caseStudyBy: "{title}, a case study by {name}",
+  collaborators: "Collaborators",
+  viewProfile: "View profile",
+  justNow: "just now",
+  profiles: "Profiles",
+  backToProfiles: "Back to all profiles",
+  notFound: "Page not found",
+  notFoundDescription: "There’s nothing here. The page may have moved, or the link may be mistyped.",
+  language: "Language",
+  readingProgress: "Reading progress",
+  theme: "Theme",
+  themes: { system: "System", light: "Light", dark: "Dark" },
+  viewMedia: {
+    image: "View image {position} of {count}",
+    video: "View video {position} of {count}",
+  },
+  mediaPosition: {
+    image: "Image {position} of {count}",
+    video: "Video {position} of {count}",
+  },
+  mediaViewer: "Media viewer",
+  close: "Close",
+  previousMedia: "Previous",
+  nextMedia: "Next",
+  play: "Play",
+  pause: "Pause",
+  seek: "Seek",
+  mute: "Mute",
+  unmute: "Unmute",
+  timeOf: "{time} of {duration}",
+};
+
+const fr: Messages = {
+  about: "À propos",
+  downloadResume: "Télécharger le CV",
+  resumeFileName: "CV {name}.pdf",
+  resumeTitle: "{name} — CV",
+  readCaseStudy: "Lire l’étude de cas",
+  sections: {
+    "Contact": "Contact",
+    "Side Projects": "Projets personnels",
+    "Projects": "Projets",
+    "Work Experience": "Expérience professionnelle",
+    "Exhibitions": "Expositions",
+    "Speaking": "Conférences",
+    "Writing": "Écrits",
+    "Awards": "Prix",
+    "Features": "Presse",
+    "Volunteering": "Bénévolat",
+    "Education": "Formation",
+    "Certifications": "Certifications",
+  },
+  minutesRead: "{minutes} min de lecture",
+  role: "Rôle",
+  company: "Entreprise",
+  year: "Année",
+  with: "Avec",
+  previous: "Précédent",
+  next: "Suivant",
+  backTo: "Retour à {name}",
+  contents: "Sommaire",
+  tableOfContents: "Table des matières",
+  caseStudyBy: "{title}, une étude de cas de {name}",
+  collaborators: "Collaborateurs",
+  viewProfile: "Voir le profil",
+  justNow: "à l’instant",
+  profiles: "Profils",
+  backToProfiles: "Retour à tous les profils",
+  notFound: "Page introuvable",
+  notFoundDescription: "Il n’y a rien ici. La page a peut-être été déplacée, ou le lien contient une faute de frappe.",
+  language: "Langue",
+  readingProgress: "Progression de la lecture",
+  theme: "Thème",
+  themes: { system: "Système", light: "Clair", dark: "Sombre" },
+  viewMedia: {
+    image: "Voir l’image {position} sur {count}",
+    video: "Voir la vidéo {position} sur {count}",
+  },
+  mediaPosition: {
+    image: "Image {position} sur {count}",
+    video: "Vidéo {position} sur {count}",
+  },
+  mediaViewer: "Visionneuse",
+  close: "Fermer",
+  previousMedia: "Précédent",
+  nextMedia: "Suivant",
+  play: "Lire",
+  pause: "Pause",
+  seek: "Position",
+  mute: "Couper le son",
+  unmute: "Activer le son",
+  timeOf: "{time} sur {duration}",
+};
+
+const de: Messages = {
+  about: "Über mich",
+  downloadResume: "Lebenslauf herunterladen",
+  resumeFileName: "Lebenslauf {name}.pdf",
+  resumeTitle: "{name} — Lebenslauf",
+  readCaseStudy: "Fallstudie lesen",
+  sections: {
+    "Contact": "Kontakt",
+    "Side Projects": "Nebenprojekte",
+    "Projects": "Projekte",
+    "Work Experience": "Berufserfahrung",
+    "Exhibitions": "Ausstellungen",
+    "Speaking": "Vorträge",
+    "Writing": "Texte",
+    "Awards": "Auszeichnungen",
+    "Features": "Presse",
+    "Volunteering": "Ehrenamt",
+    "Education": "Ausbildung",
+    "Certifications": "Zertifikate",
+  },
+  minutesRead: "{minutes} Min. Lesezeit",
+  role: "Rolle",
+  company: "Unternehmen",
+  year: "Jahr",
+  with: "Mit",
+  previous: "Vorherige",
+  next: "Nächste",
+  backTo: "Zurück zu {name}",
+  contents: "Inhalt",
+  tableOfContents: "Inhaltsverzeichnis",
+  caseStudyBy: "{title}, eine Fallstudie von {name}",
+  collaborators: "Mitwirkende",
+  viewProfile: "Profil ansehen",
+  justNow: "gerade eben",
+  profiles: "Profile",
+  backToProfiles: "Zurück zu allen Profilen",
+  notFound: "Seite nicht gefunden",
+  notFoundDescription: "Hier ist nichts. Die Seite wurde vielleicht verschoben, oder der Link enthält einen Tippfehler.",
+  language: "Sprache",
+  readingProgress: "Lesefortschritt",
+  theme: "Design",
+  themes: { system: "System", light: "Hell", dark: "Dunkel" },
+  viewMedia: {
+    image: "Bild {position} von {count} ansehen",
+    video: "Video {position} von {count} ansehen",
+  },
+  mediaPosition: {
+    image: "Bild {position} von {count}",
+    video: "Video {position} von {count}",
+  },
+  mediaViewer: "Medienansicht",
+  close: "Schließen",
+  previousMedia: "Zurück",
+  nextMedia: "Weiter",
+  play: "Abspielen",
+  pause: "Pausieren",
+  seek: "Position",
+  mute: "Stummschalten",
+  unmute: "Ton einschalten",
+  timeOf: "{time} von {duration}",
+};
+
+const es: Messages = {
+  about: "Sobre mí",
+  downloadResume: "Descargar currículum",
+  resumeFileName: "Currículum {name}.pdf",
+  resumeTitle: "{name} — Currículum",
+  readCaseStudy: "Leer el caso de estudio",
+  sections: {
+    "Contact": "Contacto",
+    "Side Projects": "Proyectos personales",
+    "Projects": "Proyectos",
+    "Work Experience": "Experiencia laboral",
+    "Exhibitions": "Exposiciones",
+    "Speaking": "Charlas",
+    "Writing": "Escritos",
+    "Awards": "Premios",
+    "Features": "Prensa",
+    "Volunteering": "Voluntariado",
+    "Education": "Formación",
+    "Certifications": "Certificaciones",
+  },
+  minutesRead: "{minutes} min de lectura",
+  role: "Rol",
+  company: "Empresa",
+  year: "Año",
+  with: "Con",
+  previous: "Anterior",
+  next: "Siguiente",
+  backTo: "Volver a {name}",
+  contents: "Contenido",
+  tableOfContents: "Índice",
+  caseStudyBy: "{title}, un caso de estudio de {name}",
+  collaborators: "Colaboradores",
+  viewProfile: "Ver perfil",
+  justNow: "justo ahora",
+  profiles: "Perfiles",
+  backToProfiles: "Volver a todos los perfiles",
+  notFound: "Página no encontrada",
+  notFoundDescription: "Aquí no hay nada. Puede que la página se haya movido o que el enlace tenga un error.",
+  language: "Idioma",
+  readingProgress: "Progreso de lectura",
+  theme: "Tema",
+  themes: { system: "Sistema", light: "Claro", dark: "Oscuro" },
+  viewMedia: {
+    image: "Ver imagen {position} de {count}",
+    video: "Ver vídeo {position} de {count}",
+  },
+  mediaPosition: {
+    image: "Imagen {position} de {count}",
+    video: "Vídeo {position} de {count}",
+  },
+  mediaViewer: "Visor multimedia",
+  close: "Cerrar",
+  previousMedia: "Anterior",
+  nextMedia: "Siguiente",
+  play: "Reproducir",
+  pause: "Pausar",
+  seek: "Posición",
+  mute: "Silenciar",
+  unmute: "Activar sonido",
+  timeOf: "{time} de {duration}",
+};
+
+const messages: Record<string, Messages> = { en, fr, de, es };
+
+// A region's messages are its language's, so fr-CA is in French.
+export function getMessages(locale: string): Messages {
+  return messages[locale] ?? messages[locale.split("-")[0]] ?? en;
+}
@@ -0,0 +1,92 @@
+import type { Metadata } from "next";
+import { describeProfile, type CaseStudy, type CV } from "./cv";
+import { getDefaultUsername, getProfile, getProfilePath } from "./content";
+import { defaultLocale, localePath, locales } from "./i18n";
+import { caseStudyImageAlt, ogContentType, ogSize, profileImageAlt } from "./og";
+
+// A page's address in each of the site's languages, for hreflang, with the
+// default language standing in for visitors whose language isn't one of them.
+function languageAlternates(path: string): Record<string, string> | undefined {
+  if (locales.length < 2) {
+    return undefined;
+  }
+  return Object.fromEntries([
+    ...locales.map((locale) => [locale, localePath(locale, path)]),
+    ['x-default', localePath(defaultLocale, path)],
+  ]);
+}
+
+// Open Graph writes locales with an underscore, as in en_US.
+function openGraphLocale(locale: string) {
+  return locale.replace('-', '_');
+}
+
+// The image the opengraph-image file at `path` draws, linked without the
+// default language's prefix like the page itself. The link Next derives from
+// the file always has the prefix, which middleware.ts would only redirect.
+function ogImages(locale: string, path: string, id: "profile" | "case-study", alt: string) {
+  return [{
+    url: localePath(locale, `${path}/opengraph-image/${id}`),
+    alt,
+    type: ogContentType,
+    ...ogSize,
+  }];
+}
+
+// For pages that don't describe a profile of their own, like /print: the
+// default profile's image, if there is a default profile.
+export async function defaultImageMetadata(locale: string): Promise<Metadata> {
+  const username = await getDefaultUsername();
+  if (username === undefined) {
+    return {};
+  }
+  const images = ogImages(locale, "", "profile", profileImageAlt(await getProfile(username, locale)));
+  return { openGraph: { images }, twitter: { images } };
+}
+
+// A profile's metadata. Its pages are canonical at the profile's own path, so
+// the default profile's copy at /[username] points back to /.
+export async function profileMetadata(cv: CV, locale: string = defaultLocale): Promise<Metadata> {
+  const path = await getProfilePath(cv.general.username);
+  const images = ogImages(locale, path, "profile", profileImageAlt(cv));
+  return {
+    title: cv.general.displayName,
+    description: describeProfile(cv.general),
+    openGraph: {
+      type: 'profile',
+      username: cv.general.username,
+      locale: openGraphLocale(locale),
+      images,
+    },
+    twitter: { images },
+    alternates: {
+      canonical: localePath(locale, path),
+      languages: languageAlternates(path),
+      // Only the default profile is exported.
+      types: path === '' ? {
+        'application/json': '/resume.json',
+        'text/vcard': '/contact.vcf',
+      } : undefined,
+    },
+  };
+}
+
+export async function caseStudyMetadata(cv: CV, caseStudy: CaseStudy, locale: string = defaultLocale): Promise<Metadata> {
+  const path = `${await getProfilePath(cv.general.username)}/${caseStudy.slug}`;
+  const images = ogImages(locale, path, "case-study", caseStudyImageAlt(cv, caseStudy, locale));
+  return {
+    title: `${caseStudy.meta.title} — ${cv.general.displayName}`,
+    description: caseStudy.meta.summary || describeProfile(cv.general),
+    openGraph: {
+      type: 'article',
+      authors: [cv.general.displayName],
+      locale: openGraphLocale(locale),
+      images,
+    },
+    twitter: { images },
+    alternates: {
+      canonical: localePath(locale, path),
+      languages: languageAlternates(path),
+    },
+  };
+}
@@ -0,0 +1,15 @@
+import Document from "./Document";
+import NotFoundPage from "./NotFoundPage";
+import { defaultLocale } from "./i18n";
+
+// Unknown paths end up here, outside app/[locale], so in a document of its own
+// that's prerendered in the default language; NotFoundMessage switches it to
+// the language of the path. Pages that call notFound() get
+// app/[locale]/not-found.tsx, inside their language's document.
+export default function NotFound() {
+  return (
+    <Document lang={defaultLocale}>
+      <NotFoundPage />
+    </Document>
+  );
+}
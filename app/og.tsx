@@ -0,0 +1,150 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ImageResponse } from 'next/og'
+import { getMedia } from './content';
+import type { Attachment, CaseStudy, CV } from './cv';
+import { defaultLocale, formatMessage } from './i18n';
+import { getMessages } from './messages';
+
+// The Open Graph images, which are drawn by next/og and so can only use
+// inline styles and fonts passed in as data.
+
+export const ogSize = {
+  width: 1200,
+  height: 630,
+};
+
+export const ogContentType = 'image/png';
+
+// next/og can't read woff2, so Inter comes from @fontsource's woff files.
+export async function loadInter() {
+  const file = (weight: number) => fs.readFile(path.join(
+    process.cwd(), 'node_modules', '@fontsource', 'inter', 'files', `inter-latin-${weight}-normal.woff`,
+  ));
+  const [regular, medium] = await Promise.all([file(400), file(500)]);
+  return [
+    { name: 'Inter', data: regular, weight: 400 as const, style: 'normal' as const },
+    { name: 'Inter', data: medium, weight: 500 as const, style: 'normal' as const },
+  ];
+}
+
+// Media as a data URL an <img> in next/og accepts. Only PNG and JPEG decode
+// there, and a video stands in with its poster.
+export async function ogImageSource(media: Attachment | string | undefined): Promise<string | null> {
+  const url = typeof media === 'string' ? media : media?.type === 'video' ? media.poster : media?.url;
+  const format = url?.match(/\.(png|jpe?g)$/i)?.[1].toLowerCase();
+  if (!url || !format) {
+    return null;
+  }
+  const file = await getMedia(url);
+  return file ? `data:image/${format === 'png' ? 'png' : 'jpeg'};base64,${file.toString('base64')}` : null;
+}
+
+export const ogColors = {
+  background: '#fff',
+  grey1: '#111',
+  grey2: '#555',
+  grey3: '#999',
+  wash2: '#f2f2f2',
+};
+
+// The details under a name, in the order the profile header shows them.
+export function profileDetails(cv: CV) {
+  return [cv.general.profession, cv.general.location].filter(Boolean).join(' · ');
+}
+
+export function profileImageAlt(cv: CV) {
+  return [cv.general.displayName, cv.general.byline].filter(Boolean).join(', ');
+}
+
+export async function profileImage(cv: CV) {
+  const imageSrc = await ogImageSource(cv.general.profilePhoto);
+  const details = profileDetails(cv);
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          background: ogColors.background,
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          alignItems: 'center',
+          padding: '0 96px',
+          columnGap: 56,
+          fontFamily: 'Inter',
+        }}
+      >
+        {imageSrc ? <img src={imageSrc} width="240" height="240" style={{ borderRadius: '50%', objectFit: 'cover' }} /> : null}
+        <div style={{ display: 'flex', flexDirection: 'column', rowGap: 12, flex: 1 }}>
+          <div style={{ fontSize: 72, fontWeight: 500, color: ogColors.grey1, letterSpacing: '-0.02em' }}>
+            {cv.general.displayName}
+          </div>
+          {cv.general.byline ?
+            <div style={{ fontSize: 36, color: ogColors.grey2 }}>{cv.general.byline}</div>
+          : null}
+          {details ?
+            <div style={{ fontSize: 28, color: ogColors.grey3 }}>{details}</div>
+          : null}
+        </div>
+      </div>
+    ),
+    {
+      ...ogSize,
+      fonts: await loadInter(),
+    }
+  )
+}
+
+export function caseStudyImageAlt(cv: CV, caseStudy: CaseStudy, locale: string = defaultLocale) {
+  return formatMessage(getMessages(locale).caseStudyBy, { title: caseStudy.meta.title, name: cv.general.displayName });
+}
+
+export async function caseStudyImage(cv: CV, caseStudy: CaseStudy) {
+  const { meta } = caseStudy;
+  const photoSrc = await ogImageSource(cv.general.profilePhoto);
+  const coverSrc = await ogImageSource(meta.cover[0]);
+  const details = [meta.year, meta.role, meta.company].filter(Boolean).join(' · ');
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          background: ogColors.background,
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          padding: 72,
+          columnGap: 56,
+          fontFamily: 'Inter',
+        }}
+      >
+        <div style={{ display: 'flex', flexDirection: 'column', justifyContent: 'space-between', flex: 1 }}>
+          <div style={{ display: 'flex', alignItems: 'center', columnGap: 16, fontSize: 28, color: ogColors.grey2 }}>
+            {photoSrc ? <img src={photoSrc} width="56" height="56" style={{ borderRadius: '50%', objectFit: 'cover' }} /> : null}
+            {cv.general.displayName}
+          </div>
+          <div style={{ display: 'flex', flexDirection: 'column', rowGap: 16 }}>
+            <div style={{ fontSize: 60, fontWeight: 500, lineHeight: 1.1, color: ogColors.grey1, letterSpacing: '-0.02em' }}>
+              {meta.title}
+            </div>
+            {details ?
+              <div style={{ fontSize: 28, color: ogColors.grey3 }}>{details}</div>
+            : null}
+          </div>
+        </div>
+        {coverSrc ?
+          <img
+            src={coverSrc}
+            width="440"
+            height="486"
+            style={{ borderRadius: 24, objectFit: 'cover', background: ogColors.wash2 }}/>
+        : null}
+      </div>
+    ),
+    {
+      ...ogSize,
+      fonts: await loadInter(),
+    }
+  )
+}
@@ -0,0 +1,13 @@
+import { getDefaultUsername, getProfile, getSiteURL } from '../content';
+import { toJSONResume } from '../exports';
+
+export const dynamic = 'force-static';
+
+// Exports the default profile, if there is one.
+export async function GET() {
+  if (await getDefaultUsername() === undefined) {
+    return new Response(null, { status: 404 });
+  }
+  const cv = await getProfile();
+  return Response.json(toJSONResume(cv, getSiteURL()));
+}
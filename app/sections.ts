@@ -0,0 +1,56 @@
+import {
+  sectionKeys,
+  type Contact,
+  type CV,
+  type Experience,
+  type ExperienceKey,
+} from "./cv";
+
+export type Section =
+  | { key: "contact", name: string, items: Array<Contact> }
+  | { key: ExperienceKey, name: string, items: Array<Experience> };
+
+// Derives the rendered sections from `general.sectionOrder`, pulling each
+// section's items from its typed array and skipping the empty ones.
+export function buildSections(cv: CV): Array<Section> {
+  const sections: Array<Section> = [];
+  for (const name of cv.general.sectionOrder) {
+    const key = sectionKeys[name];
+    if (!key) { continue }
+
+    if (key === "contact") {
+      if (cv.contact.length > 0) {
+        sections.push({ key, name, items: cv.contact });
+      }
+    } else if (cv[key].length > 0) {
+      sections.push({ key, name, items: cv[key] });
+    }
+  }
+  return sections;
+}
+
+export type ItemTitle = {
+  heading: string,
+  subtitle?: string,
+};
+
+// What an item is headed by depends on its section: a degree and school for
+// education, a talk's venue, a piece of writing's publication.
+export function itemTitle(key: ExperienceKey, item: Experience): ItemTitle {
+  switch (key) {
+    case "education":
+      return {
+        heading: item.degree || item.title || item.heading,
+        subtitle: item.school || item.company,
+      };
+    case "talks":
+      return {
+        heading: item.heading,
+        subtitle: [item.venue || item.company, item.location].filter(Boolean).join(", ") || undefined,
+      };
+    case "writing":
+      return { heading: item.heading, subtitle: item.publication || item.company };
+    default:
+      return { heading: item.heading, subtitle: item.location };
+  }
+}
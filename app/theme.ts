@@ -0,0 +1,32 @@
+import type { Theme, ThemeColor } from "./cv";
+
+export type ThemePreference = "system" | "light" | "dark";
+
+export const themePreferences: Array<ThemePreference> = ["system", "light", "dark"];
+
+// Where a chosen light or dark theme is remembered; "system" is stored as
+// nothing at all.
+export const themeStorageKey = "theme";
+
+// Inlined at the top of the page (see layout.tsx) so a remembered theme is
+// applied before anything paints. Following the system needs no script, as
+// globals.css falls back to prefers-color-scheme.
+export const themeScript = `try{var t=localStorage.getItem(${JSON.stringify(themeStorageKey)});if(t==="light"||t==="dark")document.documentElement.dataset.theme=t}catch(e){}`;
+
+// A profile's theme as --theme* custom properties on :root, which globals.css
+// uses in place of its defaults.
+export function themeStyles(theme: Theme | undefined): string | null {
+  if (!theme) { return null }
+  const declarations: Array<string> = [];
+  const color = (name: string, value: ThemeColor | undefined) => {
+    if (!value) { return }
+    const { light, dark } = typeof value === "string" ? { light: value, dark: value } : value;
+    declarations.push(`--theme${name}Light: ${light};`, `--theme${name}Dark: ${dark};`);
+  };
+  color("Accent", theme.accent);
+  color("Background", theme.background);
+  if (theme.font) {
+    declarations.push(`--themeFont: ${theme.font};`);
+  }
+  return declarations.length > 0 ? `:root { ${declarations.join(" ")} }` : null;
+}
@@ -0,0 +1,35 @@
+import { useEffect, useState } from "react";
+
+type InViewOptions = {
+  // The scrolling element to watch against; the viewport when left out.
+  root?: React.RefObject<HTMLElement | null>,
+  rootMargin?: string,
+};
+
+// Becomes true once the element comes within `rootMargin` of its scrollport
+// and stays true, so whatever it gates is only ever loaded once.
+export function useInView(
+  ref: React.RefObject<HTMLElement | null>,
+  { root, rootMargin = "0px" }: InViewOptions = {},
+) {
+  const [inView, setInView] = useState(false);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || inView) { return }
+    if (typeof IntersectionObserver === "undefined") {
+      setInView(true);
+      return;
+    }
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) {
+        setInView(true);
+        observer.disconnect();
+      }
+    }, { root: root?.current, rootMargin });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [inView, rootMargin]);
+
+  return inView;
+}
@@ -0,0 +1,252 @@
+import { useEffect, useRef, useState } from "react";
+import { animate, useMotionValue, useTransform } from "framer-motion";
+
+const spring = {
+  type: 'spring',
+  stiffness: 700,
+  damping: 50,
+} as const;
+
+const maxScale = 4;
+const doubleClickScale = 2.5;
+// How far a drag has to travel before it pages (desktop) or dismisses (touch).
+const pageThreshold = 80;
+const dismissThreshold = 120;
+// Movement below this is still treated as a click or tap.
+const clickSlop = 5;
+
+type Point = { x: number, y: number };
+
+type GestureOptions = {
+  active: boolean,
+  zoomable: boolean,
+  mobile: boolean,
+  onPage?: (direction: 1 | -1) => void,
+  onDismiss?: () => void,
+};
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
+
+function distance(a: Point, b: Point) {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function midpoint(a: Point, b: Point): Point {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
+
+// Zoom (pinch, wheel, double-click), panning while zoomed, drag-to-page with
+// a mouse and swipe-down-to-dismiss on touch for a single lightbox slide.
+// `zoomRef` is the element that gets scaled, clipped by its parent frame;
+// `slideStyle` moves the whole slide while paging or dismissing.
+export function useLightboxGestures(
+  zoomRef: React.RefObject<HTMLDivElement | null>,
+  { active, zoomable, mobile, onPage, onDismiss }: GestureOptions,
+) {
+  const scale = useMotionValue(1);
+  const x = useMotionValue(0);
+  const y = useMotionValue(0);
+  const dragX = useMotionValue(0);
+  const dismissY = useMotionValue(0);
+  const dismissOpacity = useTransform(dismissY, [0, 300], [1, 0.3]);
+  const [zoomed, setZoomed] = useState(false);
+
+  const pointers = useRef(new Map<number, Point>());
+  const gesture = useRef({
+    start: { x: 0, y: 0 } as Point,
+    origin: { x: 0, y: 0 } as Point,
+    startScale: 1,
+    startDistance: 0,
+    mode: null as null | 'pan' | 'pinch' | 'page' | 'dismiss',
+    moved: false,
+  });
+
+  // Position of a screen point relative to the centre of the zoomed element.
+  const fromCenter = (point: Point): Point => {
+    const element = zoomRef.current;
+    if (!element || !element.parentElement) { return { x: 0, y: 0 } }
+    const bounds = element.parentElement.getBoundingClientRect();
+    return {
+      x: point.x - (bounds.left + bounds.width / 2),
+      y: point.y - (bounds.top + bounds.height / 2),
+    };
+  };
+
+  const bounded = (nextScale: number, nextX: number, nextY: number) => {
+    const element = zoomRef.current;
+    const width = element ? element.offsetWidth : 0;
+    const height = element ? element.offsetHeight : 0;
+    const maxX = (nextScale - 1) * width / 2;
+    const maxY = (nextScale - 1) * height / 2;
+    return { x: clamp(nextX, -maxX, maxX), y: clamp(nextY, -maxY, maxY) };
+  };
+
+  // Scales to `nextScale`, keeping the content under `point` where it is.
+  const zoomTo = (nextScale: number, point: Point, animated: boolean) => {
+    const target = clamp(nextScale, 1, maxScale);
+    const current = scale.get();
+    const focus = fromCenter(point);
+    const position = bounded(
+      target,
+      focus.x - (focus.x - x.get()) * (target / current),
+      focus.y - (focus.y - y.get()) * (target / current),
+    );
+    if (animated) {
+      animate(scale, target, spring);
+      animate(x, position.x, spring);
+      animate(y, position.y, spring);
+    } else {
+      scale.set(target);
+      x.set(position.x);
+      y.set(position.y);
+    }
+    setZoomed(target > 1.01);
+  };
+
+  const reset = () => {
+    animate(scale, 1, spring);
+    animate(x, 0, spring);
+    animate(y, 0, spring);
+    setZoomed(false);
+  };
+
+  useEffect(() => {
+    if (!active) {
+      scale.set(1);
+      x.set(0);
+      y.set(0);
+      setZoomed(false);
+    }
+  }, [active]);
+
+  // Wheel listeners have to be non-passive to keep trackpad pinches (which
+  // arrive as ctrl+wheel) from zooming the whole page.
+  useEffect(() => {
+    const element = zoomRef.current?.parentElement;
+    if (!element || !zoomable || !active) { return }
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const factor = Math.exp(-event.deltaY * (event.ctrlKey ? 0.01 : 0.002));
+      zoomTo(scale.get() * factor, { x: event.clientX, y: event.clientY }, false);
+    };
+    element.addEventListener('wheel', onWheel, { passive: false });
+    return () => element.removeEventListener('wheel', onWheel);
+  }, [zoomable, active]);
+
+  const onPointerDown = (event: React.PointerEvent<HTMLElement>) => {
+    if (!active || event.button !== 0) { return }
+    pointers.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    const state = gesture.current;
+
+    if (pointers.current.size === 2 && zoomable) {
+      const [a, b] = Array.from(pointers.current.values());
+      state.mode = 'pinch';
+      state.startDistance = distance(a, b);
+      state.startScale = scale.get();
+    } else if (pointers.current.size === 1) {
+      state.start = { x: event.clientX, y: event.clientY };
+      state.origin = { x: x.get(), y: y.get() };
+      state.mode = null;
+      state.moved = false;
+    }
+  };
+
+  const onPointerMove = (event: React.PointerEvent<HTMLElement>) => {
+    if (!pointers.current.has(event.pointerId)) { return }
+    pointers.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    const state = gesture.current;
+
+    if (state.mode === 'pinch') {
+      const [a, b] = Array.from(pointers.current.values());
+      zoomTo(state.startScale * distance(a, b) / state.startDistance, midpoint(a, b), false);
+      return;
+    }
+
+    const dx = event.clientX - state.start.x;
+    const dy = event.clientY - state.start.y;
+    if (!state.moved && Math.hypot(dx, dy) < clickSlop) { return }
+    if (!state.moved) {
+      state.moved = true;
+      event.currentTarget.setPointerCapture(event.pointerId);
+      if (scale.get() > 1) {
+        state.mode = 'pan';
+      } else if (event.pointerType !== 'mouse' && dy > Math.abs(dx)) {
+        state.mode = 'dismiss';
+      } else if (event.pointerType === 'mouse' && !mobile) {
+        state.mode = 'page';
+      }
+    }
+
+    if (state.mode === 'pan') {
+      const position = bounded(scale.get(), state.origin.x + dx, state.origin.y + dy);
+      x.set(position.x);
+      y.set(position.y);
+    } else if (state.mode === 'dismiss') {
+      dismissY.set(Math.max(0, dy));
+    } else if (state.mode === 'page') {
+      dragX.set(dx);
+    }
+  };
+
+  const onPointerUp = (event: React.PointerEvent<HTMLElement>) => {
+    if (!pointers.current.delete(event.pointerId)) { return }
+    const state = gesture.current;
+
+    if (state.mode === 'pinch') {
+      if (pointers.current.size === 0) {
+        state.mode = null;
+        if (scale.get() <= 1.01) { reset() }
+      }
+      return;
+    }
+
+    if (state.mode === 'dismiss') {
+      if (dismissY.get() > dismissThreshold && onDismiss) {
+        onDismiss();
+      } else {
+        animate(dismissY, 0, spring);
+      }
+    } else if (state.mode === 'page') {
+      const dx = dragX.get();
+      if (Math.abs(dx) > pageThreshold && onPage) {
+        onPage(dx < 0 ? 1 : -1);
+      }
+      animate(dragX, 0, spring);
+    }
+    state.mode = null;
+  };
+
+  const onDoubleClick = (event: React.MouseEvent<HTMLElement>) => {
+    if (!zoomable || !active) { return }
+    if (scale.get() > 1) {
+      reset();
+    } else {
+      zoomTo(doubleClickScale, { x: event.clientX, y: event.clientY }, true);
+    }
+  };
+
+  // Swallows the click that ends a drag so it doesn't also page or close.
+  const onClickCapture = (event: React.MouseEvent<HTMLElement>) => {
+    if (gesture.current.moved) {
+      event.stopPropagation();
+      event.preventDefault();
+      gesture.current.moved = false;
+    }
+  };
+
+  return {
+    zoomed,
+    zoomStyle: { scale, x, y },
+    slideStyle: { x: dragX, y: dismissY, opacity: dismissOpacity },
+    handlers: {
+      onPointerDown,
+      onPointerMove,
+      onPointerUp,
+      onPointerCancel: onPointerUp,
+      onDoubleClick,
+      onClickCapture,
+    },
+  };
+}
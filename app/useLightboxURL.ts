@@ -0,0 +1,95 @@
+import { useEffect, useRef } from "react";
+
+// Query parameter holding the open lightbox as `<itemId>:<position>`, where
+// position is 1-based so links read naturally (?media=abc:3 is the third).
+const param = "media";
+
+function readIndex(id: string, count: number): number | null {
+  const value = new URLSearchParams(window.location.search).get(param);
+  if (!value) { return null }
+  const separator = value.lastIndexOf(":");
+  if (separator === -1 || value.slice(0, separator) !== id) { return null }
+  const position = Number(value.slice(separator + 1));
+  if (!Number.isInteger(position) || position < 1 || position > count) { return null }
+  return position - 1;
+}
+
+function urlWith(value: string | null): string {
+  const url = new URL(window.location.href);
+  if (value === null) {
+    url.searchParams.delete(param);
+  } else {
+    url.searchParams.set(param, value);
+  }
+  return url.pathname + url.search + url.hash;
+}
+
+type LightboxURLOptions = {
+  onOpen: (index: number) => void,
+  onClose: () => void,
+};
+
+// Mirrors a gallery's lightbox in the URL using the History API directly, so
+// paging through media never goes through the router or re-renders the page.
+// Opening pushes an entry, which lets the browser's back button close it.
+export function useLightboxURL(
+  id: string | undefined,
+  count: number,
+  { onOpen, onClose }: LightboxURLOptions,
+) {
+  const pushedRef = useRef(false);
+  const callbacksRef = useRef({ onOpen, onClose });
+  callbacksRef.current = { onOpen, onClose };
+
+  useEffect(() => {
+    if (!id) { return }
+
+    // A link straight to open media gets a clean entry underneath it, so
+    // going back closes the lightbox rather than leaving the page.
+    const initial = readIndex(id, count);
+    if (initial !== null) {
+      const url = urlWith(`${id}:${initial + 1}`);
+      window.history.replaceState(window.history.state, "", urlWith(null));
+      window.history.pushState(window.history.state, "", url);
+      pushedRef.current = true;
+      callbacksRef.current.onOpen(initial);
+    }
+
+    const onPopState = () => {
+      const index = readIndex(id, count);
+      pushedRef.current = false;
+      if (index === null) {
+        callbacksRef.current.onClose();
+      } else {
+        callbacksRef.current.onOpen(index);
+      }
+    };
+    window.addEventListener("popstate", onPopState);
+    return () => window.removeEventListener("popstate", onPopState);
+  }, [id, count]);
+
+  const open = (index: number) => {
+    if (!id) { return }
+    window.history.pushState(window.history.state, "", urlWith(`${id}:${index + 1}`));
+    pushedRef.current = true;
+  };
+
+  const move = (index: number) => {
+    if (!id || readIndex(id, count) === null) { return }
+    window.history.replaceState(window.history.state, "", urlWith(`${id}:${index + 1}`));
+  };
+
+  // Returns true when closing is left to the resulting popstate event.
+  const close = (): boolean => {
+    if (!id || readIndex(id, count) === null) { return false }
+    if (pushedRef.current) {
+      pushedRef.current = false;
+      window.history.back();
+      return true;
+    }
+    window.history.replaceState(window.history.state, "", urlWith(null));
+    return false;
+  };
+
+  return { open, move, close };
+}
@@ -0,0 +1,124 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { CVValidationError, parseCV, validateCV, type MediaLookup } from "./validateCV";
+
+const files: Record<string, { width: number, height: number }> = {
+  "/content/media/photo.jpg": { width: 400, height: 400 },
+  "/content/media/shot.png": { width: 1600, height: 900 },
+};
+
+const media: MediaLookup = {
+  exists: async (url) => Object.hasOwn(files, url),
+  dimensions: (url) => files[url],
+};
+
+function minimalCV(): Record<string, any> {
+  return {
+    general: {
+      profilePhoto: "/content/media/photo.jpg",
+      username: "ada",
+      displayName: "Ada Lovelace",
+      sectionOrder: ["Projects", "Contact"],
+    },
+    projects: [
+      {
+        id: "engine",
+        year: "1843",
+        heading: "Analytical Engine notes",
+        attachments: [{ type: "image", url: "/content/media/shot.png" }],
+      },
+    ],
+    contact: [
+      { id: "email", platform: "Email", handle: "ada@example.com", url: "mailto:ada@example.com" },
+    ],
+  };
+}
+
+async function failure(value: unknown): Promise<CVValidationError> {
+  const error = await validateCV(value, media).then(() => null, (error) => error);
+  expect(error).toBeInstanceOf(CVValidationError);
+  return error;
+}
+
+describe("validateCV", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("fills attachment dimensions in from the media manifest", async () => {
+    const cv = await validateCV(minimalCV(), media);
+    expect(cv.projects[0].attachments[0]).toMatchObject({ width: 1600, height: 900 });
+    expect(cv.sideProjects).toEqual([]);
+  });
+
+  it("names the path of the first problem", async () => {
+    const value = minimalCV();
+    value.projects[0].year = 1843;
+    const error = await failure(value);
+    expect(error.path).toBe("projects[0].year");
+    expect(error.message).toMatch(/^Invalid profileData\.json at projects\[0\]\.year: /);
+  });
+
+  it("rejects an id used twice, even across sections", async () => {
+    const value = minimalCV();
+    value.contact[0].id = "engine";
+    expect((await failure(value)).path).toBe("contact[0].id");
+  });
+
+  it("rejects media URLs that are neither in public/ nor http(s)", async () => {
+    for (const url of ["", "content/media/photo.jpg", "ftp://example.com/photo.jpg"]) {
+      const value = minimalCV();
+      value.general.profilePhoto = url;
+      expect((await failure(value)).path).toBe("general.profilePhoto");
+    }
+  });
+
+  it("rejects a missing file other than an attachment", async () => {
+    const value = minimalCV();
+    value.general.profilePhoto = "/content/media/missing.jpg";
+    expect((await failure(value)).path).toBe("general.profilePhoto");
+  });
+
+  it("warns about and leaves out an attachment whose file is missing", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const value = minimalCV();
+    value.projects[0].attachments.push({ type: "image", url: "/content/media/gone.jpg", width: 10, height: 10 });
+    const cv = await validateCV(value, media);
+    expect(cv.projects[0].attachments.map((attachment) => attachment.url)).toEqual(["/content/media/shot.png"]);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("projects[0].attachments[1].url"));
+  });
+
+  it("rejects dimensions that don't match the file", async () => {
+    const value = minimalCV();
+    Object.assign(value.projects[0].attachments[0], { width: 1600, height: 1200 });
+    expect((await failure(value)).path).toBe("projects[0].attachments[0].width");
+  });
+
+  it("warns about and keeps an unknown section", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const value = minimalCV();
+    value.general.sectionOrder.push("Teams");
+    const cv = await validateCV(value, media);
+    expect(cv.general.sectionOrder).toEqual(["Projects", "Contact", "Teams"]);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('unknown section "Teams"'));
+  });
+
+  it("rejects collaborators that aren't in the registry", async () => {
+    const value = minimalCV();
+    value.projects[0].collaborators = ["charles"];
+    expect((await failure(value)).path).toMatch(/^projects\[0\]\.collaborators/);
+  });
+
+  it("requires translations to include the default language", async () => {
+    const value = minimalCV();
+    value.projects[0].heading = { de: "Notizen" };
+    expect((await failure(value)).path).toMatch(/^projects\[0\]\.heading/);
+  });
+});
+
+describe("parseCV", () => {
+  it("reports invalid JSON and names the file", async () => {
+    const error = await parseCV("{", media, "profiles/ada/profileData.json").then(() => null, (error) => error);
+    expect(error).toBeInstanceOf(CVValidationError);
+    expect(error.message).toMatch(/^Invalid profiles\/ada\/profileData\.json at \$: /);
+  });
+});
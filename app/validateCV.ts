@@ -0,0 +1,453 @@
+import {
+  experienceKeys,
+  sectionKeys,
+  type Attachment,
+  type CaseStudyMeta,
+  type Collaborator,
+  type Contact,
+  type CV,
+  type Experience,
+  type General,
+  type Status,
+  type Theme,
+  type ThemeColor,
+} from "./cv";
+import { defaultLocale, locales } from "./i18n";
+
+export class CVValidationError extends Error {
+  path: string;
+  detail: string;
+
+  constructor(path: string, detail: string, file: string = "profileData.json") {
+    super(`Invalid ${file} at ${path}: ${detail}`);
+    this.name = "CVValidationError";
+    this.path = path;
+    this.detail = detail;
+  }
+}
+
+type Obj = Record<string, unknown>;
+
+// Local files referenced by the content, and attachments whose dimensions
+// depend on them, collected while validating so they can be checked against
+// public/ in one pass afterwards. `locale` is the language translated text
+// is resolved to, and `attachment` marks an attachment's own file, which is
+// allowed to be missing (see checkReferences). `file` names the file being
+// validated in warnings.
+type Context = {
+  file?: string,
+  locale: string,
+  references: Array<{ path: string, url: string, attachment?: boolean }>,
+  attachments: Array<{ path: string, attachment: Attachment }>,
+};
+
+// Problems that only take something off the page are reported rather than
+// failing the build. `file` is how the report refers to the file.
+function warn(at: string, detail: string, file: string = "profileData.json") {
+  console.warn(`${file} at ${at}: ${detail}`);
+}
+
+function object(value: unknown, at: string): Obj {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new CVValidationError(at, "expected an object");
+  }
+  return value as Obj;
+}
+
+function array(value: unknown, at: string): Array<unknown> {
+  if (!Array.isArray(value)) {
+    throw new CVValidationError(at, "expected an array");
+  }
+  return value;
+}
+
+function string(value: unknown, at: string): string {
+  if (typeof value !== "string") {
+    throw new CVValidationError(at, "expected a string");
+  }
+  return value;
+}
+
+function optionalString(value: unknown, at: string): string | undefined {
+  return value === undefined ? undefined : string(value, at);
+}
+
+function nullableString(value: unknown, at: string): string | null {
+  return value === null ? null : string(value, at);
+}
+
+// Translatable text (see `Localized` in cv.ts), resolved to the context's
+// language. Every translation is checked, whichever language is being loaded.
+function text(value: unknown, at: string, context: Context): string {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return string(value, at);
+  }
+  const translations = value as Obj;
+  for (const [locale, translation] of Object.entries(translations)) {
+    if (!locales.includes(locale)) {
+      throw new CVValidationError(`${at}.${locale}`, `${locale} isn't one of the site's languages, ${locales.join(", ")}`);
+    }
+    string(translation, `${at}.${locale}`);
+  }
+  if (translations[defaultLocale] === undefined) {
+    throw new CVValidationError(at, `expected a string, or translations that include ${defaultLocale}`);
+  }
+  return (translations[context.locale] ?? translations[defaultLocale]) as string;
+}
+
+function optionalText(value: unknown, at: string, context: Context): string | undefined {
+  return value === undefined ? undefined : text(value, at, context);
+}
+
+function optionalPositiveNumber(value: unknown, at: string): number | undefined {
+  return value === undefined ? undefined : positiveNumber(value, at);
+}
+
+function positiveNumber(value: unknown, at: string): number {
+  if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+    throw new CVValidationError(at, "expected a positive number");
+  }
+  return value;
+}
+
+// A media URL: either a path in public/, which has to exist, or an absolute
+// http(s) URL.
+function localURL(value: unknown, at: string, context: Context, attachment = false): string {
+  const url = string(value, at);
+  if (url.startsWith("/")) {
+    context.references.push({ path: at, url, attachment });
+    return url;
+  }
+  if (!/^https?:\/\/[^\s/]+/i.test(url)) {
+    throw new CVValidationError(at, `expected a path in public/ or an http(s) URL, got ${JSON.stringify(url)}`);
+  }
+  return url;
+}
+
+// Sections the site doesn't have, like Read.cv's Teams, are reported and kept
+// in the order; buildSections skips them.
+function sectionName(value: unknown, at: string, context: Context): string {
+  const name = string(value, at);
+  if (!Object.hasOwn(sectionKeys, name)) {
+    warn(at, `unknown section ${JSON.stringify(name)}, expected one of ${Object.keys(sectionKeys).join(", ")}; it's left out`, context.file);
+  }
+  return name;
+}
+
+function yearString(value: unknown, at: string): string | undefined {
+  if (typeof value === "number") {
+    return String(value);
+  }
+  return optionalString(value, at);
+}
+
+function validateStatus(value: unknown, at: string, context: Context): Status {
+  const status = object(value, at);
+  const timestamp = status.timestamp === undefined ? null : nullableString(status.timestamp, `${at}.timestamp`);
+  if (timestamp !== null && Number.isNaN(Date.parse(timestamp))) {
+    throw new CVValidationError(`${at}.timestamp`, `expected an ISO 8601 date, got ${JSON.stringify(timestamp)}`);
+  }
+  return {
+    text: status.text === undefined || status.text === null ? null : text(status.text, `${at}.text`, context),
+    emoji: status.emoji === undefined ? null : nullableString(status.emoji, `${at}.emoji`),
+    timestamp,
+  };
+}
+
+// Theme values are written into a stylesheet, so they're held to what a color
+// or a font stack can contain.
+const cssColor = /^(#[0-9a-f]{3,8}|[a-z]+|[a-z-]+\([\w\s.,%/+-]*\))$/i;
+const fontStack = /^[\w\s,'"-]+$/;
+
+function cssValue(value: unknown, at: string, pattern: RegExp, expected: string): string {
+  const text = string(value, at).trim();
+  if (!pattern.test(text)) {
+    throw new CVValidationError(at, `expected ${expected}, got ${JSON.stringify(text)}`);
+  }
+  return text;
+}
+
+function themeColor(value: unknown, at: string): ThemeColor {
+  if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    const color = value as Obj;
+    return {
+      light: cssValue(color.light, `${at}.light`, cssColor, "a CSS color"),
+      dark: cssValue(color.dark, `${at}.dark`, cssColor, "a CSS color"),
+    };
+  }
+  return cssValue(value, at, cssColor, "a CSS color, or an object with light and dark colors");
+}
+
+function validateTheme(value: unknown, at: string): Theme {
+  const theme = object(value, at);
+  return {
+    accent: theme.accent === undefined ? undefined : themeColor(theme.accent, `${at}.accent`),
+    background: theme.background === undefined ? undefined : themeColor(theme.background, `${at}.background`),
+    font: theme.font === undefined ? undefined : cssValue(theme.font, `${at}.font`, fontStack, "a font stack"),
+  };
+}
+
+function validateGeneral(value: unknown, at: string, context: Context): General {
+  const general = object(value, at);
+  return {
+    profilePhoto: localURL(general.profilePhoto, `${at}.profilePhoto`, context),
+    username: string(general.username, `${at}.username`),
+    displayName: string(general.displayName, `${at}.displayName`),
+    profession: optionalText(general.profession, `${at}.profession`, context),
+    location: optionalText(general.location, `${at}.location`, context),
+    pronouns: optionalText(general.pronouns, `${at}.pronouns`, context),
+    byline: optionalText(general.byline, `${at}.byline`, context),
+    website: optionalString(general.website, `${at}.website`),
+    websiteURL: optionalString(general.websiteURL, `${at}.websiteURL`),
+    about: optionalText(general.about, `${at}.about`, context),
+    status: general.status === undefined ? undefined : validateStatus(general.status, `${at}.status`, context),
+    theme: general.theme === undefined ? undefined : validateTheme(general.theme, `${at}.theme`),
+    sectionOrder: array(general.sectionOrder, `${at}.sectionOrder`)
+      .map((name, index) => sectionName(name, `${at}.sectionOrder[${index}]`, context)),
+  };
+}
+
+function validateAttachment(value: unknown, at: string, context: Context): Attachment {
+  const attachment = object(value, at);
+  if (attachment.type !== "image" && attachment.type !== "video") {
+    throw new CVValidationError(`${at}.type`, `expected "image" or "video", got ${JSON.stringify(attachment.type)}`);
+  }
+  // Dimensions may be left out and filled in from the media manifest.
+  const result: Attachment = {
+    type: attachment.type,
+    url: localURL(attachment.url, `${at}.url`, context, true),
+    width: optionalPositiveNumber(attachment.width, `${at}.width`) ?? 0,
+    height: optionalPositiveNumber(attachment.height, `${at}.height`) ?? 0,
+    poster: attachment.poster === undefined ? undefined :
+      localURL(attachment.poster, `${at}.poster`, context),
+    alt: optionalText(attachment.alt, `${at}.alt`, context),
+    caption: optionalText(attachment.caption, `${at}.caption`, context),
+    credit: optionalString(attachment.credit, `${at}.credit`),
+    description: optionalText(attachment.description, `${at}.description`, context),
+  };
+  context.attachments.push({ path: at, attachment: result });
+  return result;
+}
+
+function validateCollaborator(value: unknown, at: string, context: Context): Collaborator {
+  const collaborator = object(value, at);
+  return {
+    id: string(collaborator.id, `${at}.id`),
+    displayName: string(collaborator.displayName, `${at}.displayName`),
+    profilePhoto: collaborator.profilePhoto === null ? null :
+      localURL(collaborator.profilePhoto, `${at}.profilePhoto`, context),
+    profileURL: optionalString(collaborator.profileURL, `${at}.profileURL`),
+    role: optionalText(collaborator.role, `${at}.role`, context),
+  };
+}
+
+function collaboratorIds(value: unknown, at: string): Array<string> {
+  return array(value ?? [], at).map((id, index) => string(id, `${at}[${index}]`));
+}
+
+// Checks that every id in `ids` (found at `at`) is in the registry.
+export function checkCollaborators(
+  ids: Array<string>,
+  at: string,
+  collaborators: Array<Collaborator>,
+  file?: string,
+) {
+  ids.forEach((id, index) => {
+    if (!collaborators.some((collaborator) => collaborator.id === id)) {
+      throw new CVValidationError(`${at}[${index}]`, `no collaborator with id ${JSON.stringify(id)}`, file);
+    }
+  });
+}
+
+function validateExperience(value: unknown, at: string, context: Context): Experience {
+  const item = object(value, at);
+  return {
+    id: string(item.id, `${at}.id`),
+    year: string(item.year, `${at}.year`),
+    heading: text(item.heading, `${at}.heading`, context),
+    url: item.url === undefined ? undefined : nullableString(item.url, `${at}.url`),
+    collaborators: collaboratorIds(item.collaborators, `${at}.collaborators`),
+    description: optionalText(item.description, `${at}.description`, context),
+    attachments: array(item.attachments ?? [], `${at}.attachments`)
+      .map((attachment, index) => validateAttachment(attachment, `${at}.attachments[${index}]`, context)),
+    type: optionalString(item.type, `${at}.type`),
+    title: optionalText(item.title, `${at}.title`, context),
+    company: optionalString(item.company, `${at}.company`),
+    location: optionalText(item.location, `${at}.location`, context),
+    degree: optionalText(item.degree, `${at}.degree`, context),
+    school: optionalString(item.school, `${at}.school`),
+    venue: optionalString(item.venue, `${at}.venue`),
+    publication: optionalString(item.publication, `${at}.publication`),
+    caseStudy: optionalString(item.caseStudy, `${at}.caseStudy`),
+  };
+}
+
+function validateContact(value: unknown, at: string): Contact {
+  const contact = object(value, at);
+  return {
+    id: string(contact.id, `${at}.id`),
+    platform: string(contact.platform, `${at}.platform`),
+    handle: string(contact.handle, `${at}.handle`),
+    url: string(contact.url, `${at}.url`),
+  };
+}
+
+export type MediaLookup = {
+  exists: (url: string) => Promise<boolean>,
+  // Measured size of a file, when the media pipeline has seen it.
+  dimensions: (url: string) => { width: number, height: number } | undefined,
+};
+
+// Throws on the first missing file, except for attachments: those are
+// reported and returned so they can be left off the page, since an export
+// can reference media that didn't come with it and one missing image
+// shouldn't take the whole profile down.
+async function checkReferences(context: Context, media: MediaLookup): Promise<Set<string>> {
+  const missing = new Set<string>();
+  for (const reference of context.references) {
+    if (!(await media.exists(reference.url))) {
+      if (!reference.attachment) {
+        throw new CVValidationError(reference.path, `${reference.url} does not exist in public/`);
+      }
+      warn(reference.path, `${reference.url} does not exist in public/, so the attachment is left out`, context.file);
+      missing.add(reference.url);
+    }
+  }
+
+  for (const { path, attachment } of context.attachments) {
+    if (missing.has(attachment.url)) { continue }
+    const measured = media.dimensions(attachment.url);
+    if (!attachment.width && !attachment.height && measured) {
+      attachment.width = measured.width;
+      attachment.height = measured.height;
+    }
+    if (!attachment.width || !attachment.height) {
+      throw new CVValidationError(`${path}.width`, "missing dimensions; add width and height or run `npm run media` to measure the file");
+    }
+    if (measured && (attachment.width !== measured.width || attachment.height !== measured.height)) {
+      throw new CVValidationError(`${path}.width`, `${attachment.width}×${attachment.height} doesn't match the file's ${measured.width}×${measured.height}`);
+    }
+  }
+  return missing;
+}
+
+function withoutMissing(item: Experience, missing: Set<string>): Experience {
+  return { ...item, attachments: item.attachments.filter((attachment) => !missing.has(attachment.url)) };
+}
+
+// Checks the parsed JSON against the content model and verifies that every
+// local media URL exists and that attachment dimensions match the files.
+// Throws a CVValidationError naming the exact path of the first problem,
+// which fails the build during prerendering. Attachments whose file is
+// missing are the exception; see checkReferences. `file` is how warnings
+// refer to the JSON, and translated text comes back in `locale`.
+export async function validateCV(value: unknown, media: MediaLookup, file?: string, locale: string = defaultLocale): Promise<CV> {
+  const context: Context = { file, locale, references: [], attachments: [] };
+  const cv = object(value, "$");
+  const experiences = (key: string) => array(cv[key] ?? [], key)
+    .map((item, index) => validateExperience(item, `${key}[${index}]`, context));
+
+  const result: CV = {
+    general: validateGeneral(cv.general, "general", context),
+    projects: experiences("projects"),
+    sideProjects: experiences("sideProjects"),
+    exhibitions: experiences("exhibitions"),
+    talks: experiences("talks"),
+    writing: experiences("writing"),
+    awards: experiences("awards"),
+    features: experiences("features"),
+    workExperience: experiences("workExperience"),
+    volunteering: experiences("volunteering"),
+    education: experiences("education"),
+    certifications: experiences("certifications"),
+    contact: array(cv.contact ?? [], "contact")
+      .map((item, index) => validateContact(item, `contact[${index}]`)),
+    collaborators: array(cv.collaborators ?? [], "collaborators")
+      .map((item, index) => validateCollaborator(item, `collaborators[${index}]`, context)),
+  };
+
+  const collaboratorIdsSeen = new Set<string>();
+  result.collaborators.forEach((collaborator, index) => {
+    if (collaboratorIdsSeen.has(collaborator.id)) {
+      throw new CVValidationError(`collaborators[${index}].id`, `duplicate id ${JSON.stringify(collaborator.id)}`);
+    }
+    collaboratorIdsSeen.add(collaborator.id);
+  });
+
+  // Items are looked up by id across the whole CV (lightbox links, case
+  // studies), so an id can't repeat even in different sections.
+  const ids = new Set<string>();
+  const checkId = (id: string, at: string) => {
+    if (ids.has(id)) {
+      throw new CVValidationError(at, `duplicate id ${JSON.stringify(id)}`);
+    }
+    ids.add(id);
+  };
+  for (const key of experienceKeys) {
+    result[key].forEach((item, index) => checkId(item.id, `${key}[${index}].id`));
+  }
+  result.contact.forEach((item, index) => checkId(item.id, `contact[${index}].id`));
+
+  for (const key of experienceKeys) {
+    result[key].forEach((item, index) => {
+      checkCollaborators(item.collaborators, `${key}[${index}].collaborators`, result.collaborators);
+    });
+  }
+
+  const missing = await checkReferences(context, media);
+  for (const key of experienceKeys) {
+    result[key] = result[key].map((item) => withoutMissing(item, missing));
+  }
+  return result;
+}
+
+// `name` is how errors and warnings refer to the file, for profiles that
+// don't live at the root of the content directory.
+export async function parseCV(file: string, media: MediaLookup, name?: string, locale?: string): Promise<CV> {
+  try {
+    let json: unknown;
+    try {
+      json = JSON.parse(file);
+    } catch (error) {
+      throw new CVValidationError("$", (error as Error).message);
+    }
+    return await validateCV(json, media, name, locale);
+  } catch (error) {
+    if (name && error instanceof CVValidationError) {
+      throw new CVValidationError(error.path, error.detail, name);
+    }
+    throw error;
+  }
+}
+
+// Validates a case study's frontmatter. Paths in errors are relative to the
+// frontmatter block and name the markdown file they came from.
+export async function validateCaseStudyMeta(
+  value: unknown,
+  file: string,
+  media: MediaLookup,
+  locale: string = defaultLocale,
+): Promise<CaseStudyMeta> {
+  const context: Context = { file, locale, references: [], attachments: [] };
+  try {
+    const meta = object(value, "frontmatter");
+    const result: CaseStudyMeta = {
+      title: string(meta.title, "frontmatter.title"),
+      year: yearString(meta.year, "frontmatter.year"),
+      role: optionalString(meta.role, "frontmatter.role"),
+      company: optionalString(meta.company, "frontmatter.company"),
+      collaborators: collaboratorIds(meta.collaborators, "frontmatter.collaborators"),
+      cover: array(meta.cover ?? [], "frontmatter.cover")
+        .map((attachment, index) => validateAttachment(attachment, `frontmatter.cover[${index}]`, context)),
+      experience: optionalString(meta.experience, "frontmatter.experience"),
+      summary: optionalString(meta.summary, "frontmatter.summary"),
+    };
+    const missing = await checkReferences(context, media);
+    return { ...result, cover: result.cover.filter((attachment) => !missing.has(attachment.url)) };
+  } catch (error) {
+    if (error instanceof CVValidationError) {
+      throw new CVValidationError(error.path, error.detail, file);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  defaultLocale,
+  isLocale,
+  localeChoiceParam,
+  localeCookie,
+  localePath,
+  preferredLocale,
+  splitLocalePath,
+} from "./app/i18n";
+
+// Every page lives under app/[locale]. Other languages are served at their
+// prefix, /fr/..., while the default language is served without one, so its
+// paths are rewritten onto /[defaultLocale]/... here.
+//
+// A visit without a prefix goes to the language picked last time with the
+// language switcher, whose links carry localeChoiceParam, or else to the one
+// Accept-Language asks for. Other links with a prefix aren't remembered.
+export function middleware(request: NextRequest) {
+  const url = request.nextUrl.clone();
+  const [, prefix] = url.pathname.split("/");
+  const { path } = splitLocalePath(url.pathname);
+
+  const choice = url.searchParams.get(localeChoiceParam);
+  if (choice !== null) {
+    url.searchParams.delete(localeChoiceParam);
+    const response = NextResponse.redirect(url);
+    if (isLocale(choice)) {
+      response.cookies.set(localeCookie, choice, { path: "/", maxAge: 60 * 60 * 24 * 365, sameSite: "lax" });
+    }
+    return response;
+  }
+
+  if (isLocale(prefix)) {
+    if (prefix === defaultLocale) {
+      // The default language has one address, the one without a prefix.
+      url.pathname = localePath(prefix, path);
+      return NextResponse.redirect(url);
+    }
+    return NextResponse.next();
+  }
+
+  const chosen = request.cookies.get(localeCookie)?.value;
+  const preferred = isLocale(chosen) ? chosen : preferredLocale(request.headers.get("accept-language"));
+  if (preferred !== defaultLocale) {
+    url.pathname = localePath(preferred, path);
+    return NextResponse.redirect(url);
+  }
+  url.pathname = `/${defaultLocale}${path}`;
+  return NextResponse.rewrite(url);
+}
+
+// Leaves out Next's own files, everything in public/ (whose names have a
+// dot), and the editor, which isn't translated.
+export const config = {
+  matcher: ["/((?!_next/|content/|edit$|edit/|.*\\.).*)"],
+};
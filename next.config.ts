@@ -1,7 +1,17 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  env: {
+    // The site's languages (see app/i18n.ts), fixed at build time so that
+    // middleware.ts agrees with the pages that were prerendered.
+    LOCALES: process.env.LOCALES || "en",
+  },
+  experimental: {
+    serverActions: {
+      // Media uploaded from the editor (app/edit) is sent to a server action.
+      bodySizeLimit: '100mb',
+    },
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { fromJSONResume, fromReadCV, rebuildSectionOrder, unmapped } from "./import";
+
+describe("fromJSONResume", () => {
+  it("maps basics, contacts and each kind of entry", async () => {
+    const cv = await fromJSONResume({
+      basics: {
+        name: "Grace Hopper",
+        label: "Computer scientist",
+        email: "grace@example.com",
+        phone: "+1 (555) 010-0000",
+        url: "https://www.grace.example.com/",
+        location: { city: "Arlington", region: "VA" },
+        profiles: [{ network: "GitHub", username: "grace", url: "https://github.com/grace" }],
+      },
+      work: [{ name: "US Navy", position: "Rear admiral", startDate: "1943-12-01", highlights: ["COBOL", "Nanoseconds"] }],
+      education: [{ institution: "Yale", studyType: "PhD", area: "Mathematics", startDate: "1930", endDate: "1934" }],
+      projects: [
+        { name: "UNIVAC I", startDate: "1949", endDate: "1951" },
+        { name: "Nanoseconds", type: "talk", startDate: "1985" },
+      ],
+      publications: [{ name: "The Education of a Computer", publisher: "ACM", releaseDate: "1952-05-02" }],
+    });
+
+    expect(cv.general).toMatchObject({
+      username: "grace-hopper",
+      displayName: "Grace Hopper",
+      profession: "Computer scientist",
+      location: "Arlington, VA",
+      website: "grace.example.com",
+    });
+    expect(cv.contact.map((contact) => contact.url)).toEqual([
+      "mailto:grace@example.com",
+      "tel:+15550100000",
+      "https://github.com/grace",
+    ]);
+    expect(cv.workExperience[0]).toMatchObject({
+      heading: "Rear admiral at US Navy",
+      year: "1943 — Now",
+      description: "- COBOL\n- Nanoseconds",
+    });
+    expect(cv.education[0]).toMatchObject({ heading: "PhD, Mathematics", school: "Yale", year: "1930 — 1934" });
+    expect(cv.projects.map((project) => project.heading)).toEqual(["UNIVAC I"]);
+    expect(cv.talks.map((talk) => talk.heading)).toEqual(["Nanoseconds"]);
+    expect(cv.writing[0]).toMatchObject({ publication: "ACM", year: "1952" });
+  });
+});
+
+describe("fromReadCV", () => {
+  it("files items by their type and registers inline collaborators once", async () => {
+    const cv = await fromReadCV({
+      general: { username: "ada", displayName: "Ada", sectionOrder: ["Projects", "Speaking"] },
+      projects: [
+        { id: "engine", year: "1843", heading: "Engine", collaborators: [{ displayName: "Charles Babbage" }] },
+        { year: "1840", heading: "Lecture", type: "talk", collaborators: [{ displayName: "Charles Babbage" }] },
+      ],
+    });
+
+    expect(cv.projects.map((item) => item.id)).toEqual(["engine"]);
+    expect(cv.talks.map((item) => item.heading)).toEqual(["Lecture"]);
+    expect(cv.collaborators.map((collaborator) => collaborator.displayName)).toEqual(["Charles Babbage"]);
+    expect(cv.projects[0].collaborators).toEqual(cv.talks[0].collaborators);
+  });
+
+  it("reads allCollections when there are no typed arrays", async () => {
+    const cv = await fromReadCV({
+      general: { username: "lin", displayName: "Lin", sectionOrder: [] },
+      allCollections: [
+        { name: "Contact", items: [{ platform: "Email", handle: "lin@example.com", url: "mailto:lin@example.com" }] },
+        { name: "Awards", items: [{ year: "2020", heading: "Best in show" }] },
+      ],
+    });
+
+    expect(cv.contact.map((contact) => contact.platform)).toEqual(["Email"]);
+    expect(cv.awards.map((award) => award.heading)).toEqual(["Best in show"]);
+  });
+
+  it("reports sections the site doesn't have rather than keeping them", async () => {
+    const cv = await fromReadCV({
+      general: { username: "sam", displayName: "Sam", sectionOrder: ["Teams", "Awards"] },
+      awards: [{ year: "2021", heading: "Prize" }],
+    });
+
+    expect(cv.general.sectionOrder).toEqual(["Awards"]);
+    expect(unmapped).toContain("general.sectionOrder[0] (Teams)");
+  });
+});
+
+describe("rebuildSectionOrder", () => {
+  it("keeps the source's order, drops empty sections and appends the rest", async () => {
+    const cv = await fromReadCV({
+      general: { username: "kim", displayName: "Kim", sectionOrder: ["Awards", "Projects"] },
+      awards: [{ year: "2019", heading: "Medal" }],
+      writing: [{ year: "2018", heading: "Essay" }],
+    });
+    rebuildSectionOrder(cv);
+    expect(cv.general.sectionOrder).toEqual(["Awards", "Writing"]);
+  });
+});
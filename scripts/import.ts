@@ -0,0 +1,624 @@
+// Converts a Read.cv export or a JSON Resume document into
+// public/content/profileData.json, copying (or downloading) the media it
+// references into public/content/media with dimensions filled in.
+//
+//   npm run import -- <file.json> [--username name] [--force]
+//   npm run import -- <file.json> --profile name [--force]
+//
+// --profile imports one of several profiles instead, into
+// public/content/profiles/<name>, with that name as its username.
+//
+// Media paths in the source are resolved against the file's directory. Media
+// that can't be found or downloaded is left out, and listed at the end along
+// with any field that has no place in our schema, so nothing is dropped
+// silently. An existing profileData.json is only replaced with --force.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  experienceKeys,
+  sectionKeys,
+  type Attachment,
+  type Collaborator,
+  type Contact,
+  type CV,
+  type Experience,
+  type ExperienceKey,
+  type General,
+  type Status,
+} from '../app/cv';
+import { fileSystemSource } from '../app/content';
+import { CVValidationError, validateCV } from '../app/validateCV';
+import { dimensions } from './measure';
+
+type Obj = Record<string, unknown>;
+
+const publicDir = path.join(process.cwd(), 'public');
+let mediaURL = '/content/media';
+let output = path.join(publicDir, 'content', 'profileData.json');
+const videoExtensions = /\.(mp4|webm|mov)$/i;
+
+// Fields that were read from the source, so the rest can be reported.
+const consumed = new Set<string>();
+export const unmapped: Array<string> = [];
+// Media that couldn't be imported, and required fields the source had no
+// value for.
+const missingMedia: Array<string> = [];
+const needsValue: Array<string> = [];
+
+// The source isn't validated up front, so fields are read leniently: a value
+// of the wrong type counts as missing.
+function isObject(value: unknown): value is Obj {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function object(value: unknown): Obj {
+  return isObject(value) ? value : {};
+}
+
+function list(value: unknown): Array<unknown> {
+  return Array.isArray(value) ? value : [];
+}
+
+function text(value: unknown): string | undefined {
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+function texts(value: unknown): Array<string> {
+  return list(value).map(text).filter((item): item is string => item !== undefined);
+}
+
+function take(at: string, ...keys: Array<string>) {
+  for (const key of keys) {
+    consumed.add(`${at}.${key}`);
+  }
+}
+
+function reportUnmapped(source: unknown, at: string) {
+  if (typeof source !== 'object' || source === null) { return }
+  for (const [key, value] of Object.entries(source)) {
+    const field = Array.isArray(source) ? `${at}[${key}]` : at ? `${at}.${key}` : key;
+    if (consumed.has(field)) { continue }
+    const nested = Array.from(consumed).some((path) => path.startsWith(field + '.') || path.startsWith(field + '['));
+    if (nested) {
+      reportUnmapped(value, field);
+    } else if (value !== null && value !== '' && !(Array.isArray(value) && value.length === 0)) {
+      unmapped.push(field);
+    }
+  }
+}
+
+function slugify(text: string) {
+  return text.toLowerCase().normalize('NFKD').replace(/[^\w\s-]/g, '').trim().replace(/[\s_-]+/g, '-');
+}
+
+// Unique, readable ids that stay the same when the same file is imported
+// again, so deep links and case study links keep working.
+function idFactory() {
+  const used = new Set<string>();
+  return (text: string, existing = false) => {
+    const base = (existing ? text : slugify(text)) || 'item';
+    let id = base;
+    for (let n = 2; used.has(id); n++) {
+      id = `${base}-${n}`;
+    }
+    used.add(id);
+    return id;
+  };
+}
+
+const id = idFactory();
+
+function yearRange(start?: string, end?: string) {
+  const startYear = start?.slice(0, 4);
+  const endYear = end ? end.slice(0, 4) : 'Now';
+  if (!startYear) {
+    return end ? endYear : '';
+  }
+  return startYear === endYear ? startYear : `${startYear} — ${endYear}`;
+}
+
+// Summary plus highlights as a markdown list.
+function description(summary: unknown, highlights?: unknown) {
+  const items = texts(highlights).map((highlight) => `- ${highlight}`).join('\n');
+  return [text(summary), items].filter(Boolean).join('\n\n') || undefined;
+}
+
+let sourceDir = process.cwd();
+
+async function readSourceFile(url: string): Promise<Buffer> {
+  if (/^https?:\/\//.test(url)) {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`${url} responded ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+  const relative = url.replace(/^\//, '');
+  for (const candidate of [path.join(sourceDir, relative), path.join(publicDir, relative)]) {
+    try {
+      return await fs.readFile(candidate);
+    } catch {
+      // Try the next location.
+    }
+  }
+  throw new Error(`${url} not found next to the source file or in public/`);
+}
+
+// Copies a file into `directory` (public/content/media by default), reusing an identical file that's
+// already there and numbering around different ones. Local files keep their
+// name; downloads, which tend to have opaque names, are named `<name>.<ext>`.
+async function importMedia(url: string, name: string, directory = mediaURL): Promise<string> {
+  const data = await readSourceFile(url);
+  const remote = /^https?:\/\//.test(url);
+  const { name: original, ext } = path.parse(new URL(url, 'file:///').pathname);
+  const extension = ext.toLowerCase() || '.jpg';
+  const base = (remote ? name : decodeURIComponent(original)).replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'media';
+  await fs.mkdir(path.join(publicDir, directory), { recursive: true });
+  for (let n = 1; ; n++) {
+    const file = `${n === 1 ? base : `${base}-${n}`}${extension}`;
+    const destination = path.join(publicDir, directory, file);
+    const existing = await fs.readFile(destination).catch(() => null);
+    if (existing && !existing.equals(data)) { continue }
+    if (!existing) {
+      await fs.writeFile(destination, data);
+    }
+    return `${directory}/${file}`;
+  }
+}
+
+// Like importMedia, but a file that can't be read is reported as missing
+// (used at `at`) rather than stopping the import.
+async function tryImportMedia(url: unknown, at: string, name: string, directory?: string): Promise<string | undefined> {
+  const source = text(url);
+  if (source === undefined) {
+    missingMedia.push(`${at} (no URL)`);
+    return undefined;
+  }
+  try {
+    return await importMedia(source, name, directory);
+  } catch (error) {
+    missingMedia.push(`${at} (${(error as Error).message})`);
+    return undefined;
+  }
+}
+
+async function importAttachment(value: Obj, at: string, name: string): Promise<Attachment | null> {
+  take(at, 'type', 'url', 'width', 'height', 'poster', 'alt', 'caption', 'credit', 'description');
+  const url = await tryImportMedia(value.url, `${at}.url`, name);
+  if (url === undefined) {
+    return null;
+  }
+  const type = value.type === 'video' || videoExtensions.test(url) ? 'video' : 'image';
+  const attachment: Attachment = {
+    type,
+    url,
+    width: typeof value.width === 'number' ? value.width : 0,
+    height: typeof value.height === 'number' ? value.height : 0,
+    alt: text(value.alt),
+    caption: text(value.caption),
+    credit: text(value.credit),
+    description: text(value.description),
+  };
+  if (type === 'image') {
+    Object.assign(attachment, await dimensions(path.join(publicDir, url)));
+  }
+  if (value.poster !== undefined) {
+    attachment.poster = await tryImportMedia(value.poster, `${at}.poster`, `${name}-poster`);
+  }
+  return attachment;
+}
+
+// Collaborators are written once to the registry and referred to by id.
+// Read.cv repeats them inline on each item, so they're matched up by name.
+const registry: Array<Collaborator> = [];
+const collaboratorId = idFactory();
+
+async function importCollaborator(value: unknown, at: string): Promise<string> {
+  if (typeof value === 'string') {
+    consumed.add(at);
+    return value;
+  }
+  const collaborator = object(value);
+  take(at, 'id', 'displayName', 'name', 'profilePhoto', 'profileURL', 'url', 'role');
+  const displayName = text(collaborator.displayName) ?? text(collaborator.name) ?? '';
+  const existing = registry.find((entry) => entry.displayName === displayName);
+  if (existing) {
+    return existing.id;
+  }
+  const sourceId = text(collaborator.id);
+  const id = sourceId ? collaboratorId(sourceId, true) : collaboratorId(displayName);
+  registry.push({
+    id,
+    displayName,
+    profilePhoto: collaborator.profilePhoto ?
+      await tryImportMedia(collaborator.profilePhoto, `${at}.profilePhoto`, id, '/content/collaborators') ?? null :
+      null,
+    profileURL: text(collaborator.profileURL) ?? text(collaborator.url),
+    role: text(collaborator.role),
+  });
+  return id;
+}
+
+// Read.cv item types, singular, mapped to our collections.
+const readCVTypes: Record<string, ExperienceKey> = {
+  project: 'projects',
+  sideProject: 'sideProjects',
+  exhibition: 'exhibitions',
+  speaking: 'talks',
+  talk: 'talks',
+  writing: 'writing',
+  award: 'awards',
+  feature: 'features',
+  workExperience: 'workExperience',
+  volunteering: 'volunteering',
+  education: 'education',
+  certification: 'certifications',
+};
+
+async function importReadCVItem(item: Obj, at: string): Promise<Experience> {
+  take(at, 'id', 'year', 'heading', 'url', 'description', 'type',
+    'title', 'company', 'location', 'degree', 'school', 'venue', 'publication', 'caseStudy');
+  const heading = text(item.heading) ?? text(item.title) ?? '';
+  const attachments: Array<Attachment> = [];
+  for (const [index, attachment] of list(item.attachments).entries()) {
+    const imported = await importAttachment(object(attachment), `${at}.attachments[${index}]`, `${heading}-${index + 1}`);
+    if (imported) {
+      attachments.push(imported);
+    }
+  }
+  const collaborators: Array<string> = [];
+  for (const [index, collaborator] of list(item.collaborators).entries()) {
+    collaborators.push(await importCollaborator(collaborator, `${at}.collaborators[${index}]`));
+  }
+  const sourceId = text(item.id);
+  return {
+    id: sourceId ? id(sourceId, true) : id(heading),
+    year: text(item.year) ?? '',
+    heading,
+    url: text(item.url) ?? null,
+    collaborators,
+    description: text(item.description),
+    attachments,
+    type: text(item.type),
+    title: text(item.title),
+    company: text(item.company),
+    location: text(item.location),
+    degree: text(item.degree),
+    school: text(item.school),
+    venue: text(item.venue),
+    publication: text(item.publication),
+    caseStudy: text(item.caseStudy),
+  };
+}
+
+// A profile photo that couldn't be imported is left out and reported, since
+// there's nothing to stand in for it.
+type ImportedGeneral = Omit<General, 'profilePhoto'> & { profilePhoto?: string };
+
+function emptyCV(general: ImportedGeneral): CV {
+  if (general.profilePhoto === undefined) {
+    needsValue.push('general.profilePhoto');
+  }
+  const cv = { general } as CV;
+  for (const key of experienceKeys) {
+    cv[key] = [];
+  }
+  cv.contact = [];
+  cv.collaborators = registry;
+  return cv;
+}
+
+function importStatus(value: unknown): Status | undefined {
+  if (!isObject(value)) {
+    return undefined;
+  }
+  return {
+    text: text(value.text) ?? null,
+    emoji: text(value.emoji) ?? null,
+    timestamp: text(value.timestamp) ?? null,
+  };
+}
+
+export async function fromReadCV(source: Obj, username?: string): Promise<CV> {
+  const general = object(source.general);
+  take('general', 'profilePhoto', 'username', 'displayName', 'profession', 'location', 'pronouns',
+    'byline', 'website', 'websiteURL', 'about', 'status', 'sectionOrder');
+  const cv = emptyCV({
+    profilePhoto: general.profilePhoto ? await tryImportMedia(general.profilePhoto, 'general.profilePhoto', 'profilePhoto') : undefined,
+    username: username || text(general.username) || '',
+    displayName: text(general.displayName) ?? '',
+    profession: text(general.profession),
+    location: text(general.location),
+    pronouns: text(general.pronouns),
+    byline: text(general.byline),
+    website: text(general.website),
+    websiteURL: text(general.websiteURL),
+    about: text(general.about),
+    status: importStatus(general.status),
+    sectionOrder: [],
+  });
+
+  for (const [index, collaborator] of list(source.collaborators).entries()) {
+    await importCollaborator(collaborator, `collaborators[${index}]`);
+  }
+
+  // Items come from the typed arrays when present, otherwise from
+  // allCollections, whose names are section headings.
+  const collections: Array<{ name: string, items: Array<unknown>, at: string }> = [];
+  for (const [name, key] of Object.entries(sectionKeys)) {
+    if (Array.isArray(source[key])) {
+      collections.push({ name, items: source[key], at: key });
+    }
+  }
+  if (collections.length === 0 && Array.isArray(source.allCollections)) {
+    for (const [index, value] of source.allCollections.entries()) {
+      const at = `allCollections[${index}]`;
+      const collection = object(value);
+      const name = text(collection.name);
+      if (name === undefined || !(name in sectionKeys)) { continue }
+      take(at, 'name');
+      collections.push({ name, items: list(collection.items), at: `${at}.items` });
+    }
+  } else {
+    consumed.add('allCollections');
+  }
+
+  for (const { name, items, at } of collections) {
+    const key = sectionKeys[name];
+    for (const [index, value] of items.entries()) {
+      const itemAt = `${at}[${index}]`;
+      const item = object(value);
+      if (key === 'contact') {
+        take(itemAt, 'id', 'platform', 'handle', 'url');
+        const platform = text(item.platform) ?? '';
+        const sourceId = text(item.id);
+        cv.contact.push({
+          id: sourceId ? id(sourceId, true) : id(platform),
+          platform,
+          handle: text(item.handle) ?? '',
+          url: text(item.url) ?? '',
+        });
+      } else {
+        const type = text(item.type);
+        const target = (type && readCVTypes[type]) || key;
+        cv[target].push(await importReadCVItem(item, itemAt));
+      }
+    }
+  }
+
+  cv.general.sectionOrder = list(general.sectionOrder).filter((name, index): name is string => {
+    if (typeof name === 'string' && name in sectionKeys) { return true }
+    unmapped.push(`general.sectionOrder[${index}] (${name})`);
+    return false;
+  });
+  return cv;
+}
+
+export async function fromJSONResume(source: Obj, username?: string): Promise<CV> {
+  consumed.add('$schema');
+  consumed.add('meta');
+  const basics = object(source.basics);
+  take('basics', 'name', 'label', 'image', 'email', 'phone', 'url', 'summary');
+  const location = object(basics.location);
+  take('basics.location', 'city', 'region');
+  const websiteURL = text(basics.url);
+  const website = websiteURL ? new URL(websiteURL) : undefined;
+  const name = text(basics.name);
+
+  const cv = emptyCV({
+    profilePhoto: basics.image ? await tryImportMedia(basics.image, 'basics.image', 'profilePhoto') : undefined,
+    username: username || slugify(name || 'profile'),
+    displayName: name ?? '',
+    profession: text(basics.label),
+    location: [text(location.city), text(location.region)].filter(Boolean).join(', ') || undefined,
+    byline: text(basics.label),
+    website: website ? website.host.replace(/^www\./, '') + website.pathname.replace(/\/$/, '') : undefined,
+    websiteURL: website?.href,
+    about: text(basics.summary),
+    sectionOrder: [],
+  });
+
+  const contact = (platform: string, handle: string, url: string): Contact => ({
+    id: id(platform), platform, handle, url,
+  });
+  const email = text(basics.email);
+  if (email) {
+    cv.contact.push(contact('Email', email, `mailto:${email}`));
+  }
+  const phone = text(basics.phone);
+  if (phone) {
+    cv.contact.push(contact('Phone', phone, `tel:${phone.replace(/[^\d+]/g, '')}`));
+  }
+  for (const [index, value] of list(basics.profiles).entries()) {
+    take(`basics.profiles[${index}]`, 'network', 'username', 'url');
+    const profile = object(value);
+    const url = text(profile.url) ?? '';
+    cv.contact.push(contact(text(profile.network) ?? '', text(profile.username) ?? url, url));
+  }
+
+  const item = (heading: string, fields: Partial<Experience>): Experience => ({
+    id: id(heading),
+    year: '',
+    heading,
+    url: null,
+    collaborators: [],
+    attachments: [],
+    ...fields,
+  });
+  const each = (key: string, fields: Array<string>, map: (entry: Obj) => void) => {
+    for (const [index, entry] of list(source[key]).entries()) {
+      take(`${key}[${index}]`, ...fields);
+      map(object(entry));
+    }
+  };
+  const year = (date: unknown) => text(date)?.slice(0, 4) || '';
+
+  each('work', ['name', 'position', 'location', 'url', 'startDate', 'endDate', 'summary', 'highlights'], (work) => {
+    const position = text(work.position);
+    const company = text(work.name);
+    cv.workExperience.push(item([position, company].filter(Boolean).join(' at '), {
+      year: yearRange(text(work.startDate), text(work.endDate)),
+      url: text(work.url) ?? null,
+      title: position,
+      company,
+      location: text(work.location),
+      description: description(work.summary, work.highlights),
+    }));
+  });
+  each('volunteer', ['organization', 'position', 'url', 'startDate', 'endDate', 'summary', 'highlights'], (volunteer) => {
+    const position = text(volunteer.position);
+    const organization = text(volunteer.organization);
+    cv.volunteering.push(item([position, organization].filter(Boolean).join(' at '), {
+      year: yearRange(text(volunteer.startDate), text(volunteer.endDate)),
+      url: text(volunteer.url) ?? null,
+      title: position,
+      company: organization,
+      description: description(volunteer.summary, volunteer.highlights),
+    }));
+  });
+  each('education', ['institution', 'url', 'area', 'studyType', 'startDate', 'endDate', 'courses'], (education) => {
+    const degree = [text(education.studyType), text(education.area)].filter(Boolean).join(', ');
+    const school = text(education.institution);
+    cv.education.push(item(degree || school || '', {
+      year: yearRange(text(education.startDate), text(education.endDate)),
+      url: text(education.url) ?? null,
+      degree: degree || undefined,
+      school,
+      description: description(undefined, education.courses),
+    }));
+  });
+  each('awards', ['title', 'date', 'awarder', 'summary'], (award) => {
+    cv.awards.push(item(text(award.title) ?? '', {
+      year: year(award.date),
+      company: text(award.awarder),
+      description: text(award.summary),
+    }));
+  });
+  each('certificates', ['name', 'date', 'issuer', 'url'], (certificate) => {
+    cv.certifications.push(item(text(certificate.name) ?? '', {
+      year: year(certificate.date),
+      url: text(certificate.url) ?? null,
+      company: text(certificate.issuer),
+    }));
+  });
+  each('publications', ['name', 'publisher', 'releaseDate', 'url', 'summary'], (publication) => {
+    cv.writing.push(item(text(publication.name) ?? '', {
+      year: year(publication.releaseDate),
+      url: text(publication.url) ?? null,
+      publication: text(publication.publisher),
+      description: text(publication.summary),
+    }));
+  });
+  each('projects', ['name', 'description', 'highlights', 'url', 'startDate', 'endDate', 'type', 'entity'], (project) => {
+    const key: ExperienceKey = project.type === 'talk' || project.type === 'presentation' ? 'talks' :
+      project.type === 'exhibition' ? 'exhibitions' : 'projects';
+    cv[key].push(item(text(project.name) ?? '', {
+      year: yearRange(text(project.startDate), text(project.endDate)),
+      url: text(project.url) ?? null,
+      company: text(project.entity),
+      description: description(project.description, project.highlights),
+    }));
+  });
+  // skills, languages, interests and references have no equivalent and
+  // are reported as unmapped.
+  return cv;
+}
+
+// Every non-empty collection, in the source's order where it had one and the
+// profile's usual order otherwise.
+export function rebuildSectionOrder(cv: CV) {
+  const names = Object.keys(sectionKeys);
+  const order = cv.general.sectionOrder.length > 0 ? [...cv.general.sectionOrder] : [];
+  for (const name of names) {
+    if (!order.includes(name)) {
+      order.push(name);
+    }
+  }
+  cv.general.sectionOrder = order.filter((name) => {
+    const key = sectionKeys[name];
+    return cv[key].length > 0;
+  });
+}
+
+function parseArgs(args: Array<string>) {
+  const options = { file: '', username: undefined as string | undefined, profile: false, force: false };
+  for (let index = 0; index < args.length; index++) {
+    if (args[index] === '--force') {
+      options.force = true;
+    } else if (args[index] === '--username') {
+      options.username = args[++index];
+    } else if (args[index] === '--profile') {
+      options.username = args[++index];
+      options.profile = true;
+    } else {
+      options.file = args[index];
+    }
+  }
+  return options;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options.file || (options.profile && !options.username)) {
+    console.error('Usage: npm run import -- <file.json> [--username name | --profile name] [--force]');
+    process.exit(1);
+  }
+  if (options.profile && options.username) {
+    mediaURL = `/content/profiles/${options.username}/media`;
+    output = path.join(publicDir, 'content', 'profiles', options.username, 'profileData.json');
+  }
+  if (!options.force && await fs.access(output).then(() => true, () => false)) {
+    console.error(`${path.relative(process.cwd(), output)} already exists; pass --force to replace it`);
+    process.exit(1);
+  }
+
+  sourceDir = path.dirname(path.resolve(options.file));
+  const source: unknown = JSON.parse(await fs.readFile(options.file, 'utf8'));
+  if (!isObject(source)) {
+    console.error(`${options.file} isn't a Read.cv export or a JSON Resume document`);
+    process.exit(1);
+  }
+  const isReadCV = isObject(source.general);
+  const cv = isReadCV ?
+    await fromReadCV(source, options.username) :
+    await fromJSONResume(source, options.username);
+  rebuildSectionOrder(cv);
+  reportUnmapped(source, '');
+
+  try {
+    await validateCV(JSON.parse(JSON.stringify(cv)), {
+      exists: fileSystemSource(publicDir).mediaExists,
+      dimensions: () => undefined,
+    });
+  } catch (error) {
+    if (error instanceof CVValidationError) {
+      console.error(`The imported profile isn't valid yet: ${error.message}`);
+    } else {
+      throw error;
+    }
+  }
+
+  await fs.mkdir(path.dirname(output), { recursive: true });
+  await fs.writeFile(output, JSON.stringify(cv, null, 2) + '\n');
+  console.log(`Imported ${isReadCV ? 'Read.cv export' : 'JSON Resume'} into ${path.relative(process.cwd(), output)}`);
+  const report = (heading: string, fields: Array<string>) => {
+    if (fields.length > 0) {
+      console.log(`\n${heading}:\n${fields.map((field) => `  ${field}`).join('\n')}`);
+    }
+  };
+  report("These fields had nowhere to go and were left out", unmapped);
+  report("This media couldn't be found or downloaded and was left out", missingMedia);
+  report("These fields need a value before the profile will build", needsValue);
+}
+
+// Only when it's run, not when the tests import the mappings.
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error.message);
+    process.exit(1);
+  });
+}
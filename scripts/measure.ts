@@ -0,0 +1,7 @@
+import sharp from 'sharp';
+
+// Dimensions of an image as displayed, after EXIF rotation.
+export async function dimensions(file: string | Buffer) {
+  const { width = 0, height = 0, orientation = 1 } = await sharp(file).metadata();
+  return orientation >= 5 ? { width: height, height: width } : { width, height };
+}
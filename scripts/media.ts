@@ -0,0 +1,135 @@
+// Measures everything in public/content/media, and in the media directory of
+// each profile under public/content/profiles, and writes what the site needs
+// to show it well into public/content/.generated: resized copies of images,
+// a poster frame for each video, and media.json with dimensions and blur
+// placeholders. Then loads all content, in each of the site's languages, so a
+// missing or mis-sized file or a bad translation fails the build here rather
+// than halfway through prerendering.
+//
+//   npm run media
+//
+// Posters are extracted with ffmpeg when it's on the PATH.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { spawnSync } from 'child_process';
+import sharp from 'sharp';
+import type { MediaInfo, MediaManifest, MediaVariant } from '../app/cv';
+import { generatedMediaURL, getCaseStudy, getCaseStudySlugs, getProfile, getProfiles } from '../app/content';
+import { locales } from '../app/i18n';
+import { CVValidationError } from '../app/validateCV';
+import { dimensions } from './measure';
+
+const publicDir = path.join(process.cwd(), 'public');
+const outDir = path.join(publicDir, generatedMediaURL);
+
+// Matches the widths LightboxImage picks from; none are upscaled.
+const variantWidths = [640, 1080, 1920, 2560];
+const imageExtensions = /\.(png|jpe?g|webp|avif|gif)$/i;
+const videoExtensions = /\.(mp4|webm|mov)$/i;
+
+async function isFresh(output: string, source: string) {
+  try {
+    const [built, original] = await Promise.all([fs.stat(output), fs.stat(source)]);
+    return built.mtimeMs >= original.mtimeMs;
+  } catch {
+    return false;
+  }
+}
+
+async function blurDataURL(file: string) {
+  const buffer = await sharp(file).rotate().resize(16).webp({ quality: 50 }).toBuffer();
+  return `data:image/webp;base64,${buffer.toString('base64')}`;
+}
+
+// `name` is where the outputs go, relative to the generated directory, so
+// files with the same name in different profiles don't overwrite each other.
+async function processImage(name: string, file: string): Promise<MediaInfo> {
+  const { width, height } = await dimensions(file);
+  const base = path.posix.join(path.posix.dirname(name), path.parse(name).name);
+  const variants: Array<MediaVariant> = [];
+  for (const variantWidth of variantWidths.filter((candidate) => candidate < width)) {
+    const output = `${base}-${variantWidth}.webp`;
+    if (!(await isFresh(path.join(outDir, output), file))) {
+      await sharp(file).rotate().resize(variantWidth).webp({ quality: 80 }).toFile(path.join(outDir, output));
+    }
+    variants.push({ url: `${generatedMediaURL}/${output}`, width: variantWidth });
+  }
+  return { width, height, blurDataURL: await blurDataURL(file), variants };
+}
+
+async function processVideo(name: string, file: string): Promise<MediaInfo | null> {
+  const output = path.posix.join(path.posix.dirname(name), `${path.parse(name).name}-poster.jpg`);
+  const poster = path.join(outDir, output);
+  if (!(await isFresh(poster, file))) {
+    const result = spawnSync('ffmpeg', ['-y', '-loglevel', 'error', '-i', file, '-frames:v', '1', '-q:v', '3', poster]);
+    if (result.error || result.status !== 0) {
+      console.warn(`Couldn't extract a poster from ${name}${result.error ? ' (is ffmpeg installed?)' : ''}`);
+      return null;
+    }
+  }
+  return {
+    ...await dimensions(poster),
+    blurDataURL: await blurDataURL(poster),
+    variants: [],
+    poster: `${generatedMediaURL}/${output}`,
+  };
+}
+
+// The shared media directory, then each profile's, with the subdirectory of
+// the output their generated files go in.
+async function mediaDirectories() {
+  const profiles = await fs.readdir(path.join(publicDir, 'content', 'profiles')).catch(() => []);
+  return [
+    { url: '/content/media', output: '' },
+    ...profiles.sort().map((username) => ({ url: `/content/profiles/${username}/media`, output: username })),
+  ];
+}
+
+async function buildManifest(): Promise<MediaManifest> {
+  const manifest: MediaManifest = {};
+  for (const directory of await mediaDirectories()) {
+    const names = await fs.readdir(path.join(publicDir, directory.url)).catch(() => []);
+    await fs.mkdir(path.join(outDir, directory.output), { recursive: true });
+    for (const name of names.sort()) {
+      const file = path.join(publicDir, directory.url, name);
+      const url = `${directory.url}/${name}`;
+      const output = path.posix.join(directory.output, name);
+      if (imageExtensions.test(name)) {
+        manifest[url] = await processImage(output, file);
+      } else if (videoExtensions.test(name)) {
+        const info = await processVideo(output, file);
+        if (info) {
+          manifest[url] = info;
+        }
+      }
+    }
+  }
+  await fs.writeFile(path.join(outDir, 'media.json'), JSON.stringify(manifest, null, 2) + '\n');
+  return manifest;
+}
+
+async function main() {
+  const manifest = await buildManifest();
+  console.log(`Measured ${Object.keys(manifest).length} media files`);
+
+  try {
+    for (const cv of await getProfiles()) {
+      const { username } = cv.general;
+      for (const locale of locales) {
+        await getProfile(username, locale);
+        for (const slug of await getCaseStudySlugs(username)) {
+          await getCaseStudy(slug, username, locale);
+        }
+      }
+    }
+  } catch (error) {
+    if (error instanceof CVValidationError) {
+      console.error(error.message);
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
+main();
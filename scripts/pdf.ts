@@ -0,0 +1,93 @@
+// Prints the /print page of the production build to the résumé PDF the
+// profile header links to (see resumePDFFile). Runs after `next build`:
+//
+//   npm run pdf
+//
+// Uses the installed Chrome; set CHROME_PATH to use another Chrome or
+// Chromium. When none launches the build fails, since the profile already
+// links the PDF. Set RESUME_PDF=off to build without it, and the profile links
+// /print instead.
+
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import net from 'net';
+import path from 'path';
+import puppeteer, { type Browser } from 'puppeteer-core';
+import { getDefaultUsername, isResumePDFEnabled, resumePDFFile } from '../app/content';
+import { defaultLocale } from '../app/i18n';
+
+const startupTimeout = 30_000;
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.on('error', reject);
+    server.listen(0, () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+async function waitForServer(url: string) {
+  const deadline = Date.now() + startupTimeout;
+  while (Date.now() < deadline) {
+    try {
+      const response = await fetch(url);
+      if (response.ok) { return }
+    } catch {
+      // Not listening yet.
+    }
+    await new Promise((resolve) => setTimeout(resolve, 250));
+  }
+  throw new Error(`${url} didn't respond within ${startupTimeout / 1000}s`);
+}
+
+function launchChrome(): Promise<Browser> {
+  const executablePath = process.env.CHROME_PATH;
+  return puppeteer.launch(executablePath ? { executablePath } : { channel: 'chrome' });
+}
+
+async function main() {
+  // An earlier build's résumé is never left behind to be deployed.
+  await fs.rm(resumePDFFile, { force: true });
+  if (!isResumePDFEnabled()) {
+    console.log('RESUME_PDF is off, so the profile links /print instead of a PDF');
+    return;
+  }
+  if (await getDefaultUsername() === undefined) {
+    console.log("There's no default profile, so there's no résumé to print");
+    return;
+  }
+  let browser: Browser;
+  try {
+    browser = await launchChrome();
+  } catch (error) {
+    throw new Error(`Chrome didn't launch: ${(error as Error).message}\nSet CHROME_PATH to a Chrome or Chromium binary, or RESUME_PDF=off to build without the PDF`);
+  }
+
+  const port = await freePort();
+  const url = `http://localhost:${port}/print`;
+  const server = spawn(path.join(process.cwd(), 'node_modules', '.bin', 'next'), ['start', '-p', String(port)], {
+    stdio: 'ignore',
+  });
+
+  try {
+    await waitForServer(url);
+    const page = await browser.newPage();
+    // The unprefixed page is in whichever language Accept-Language asks for
+    // (see middleware.ts), and the résumé is printed in the default one.
+    await page.setExtraHTTPHeaders({ 'Accept-Language': defaultLocale });
+    await page.goto(url, { waitUntil: 'networkidle0' });
+    await page.pdf({ path: resumePDFFile, preferCSSPageSize: true, printBackground: true });
+    console.log(`Wrote ${path.relative(process.cwd(), resumePDFFile)}`);
+  } finally {
+    await browser.close();
+    server.kill();
+  }
+}
+
+main().catch((error) => {
+  console.error(`Couldn't print the résumé: ${error.message}`);
+  process.exit(1);
+});